@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."sync_logs" ADD COLUMN     "complete" BOOLEAN NOT NULL DEFAULT true;
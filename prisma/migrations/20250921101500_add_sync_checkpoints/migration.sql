@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "public"."sync_checkpoints" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "resourceType" TEXT NOT NULL,
+    "cursor" TEXT,
+    "sinceUpdatedAt" TIMESTAMP(3),
+    "highWaterUpdatedAt" TIMESTAMP(3),
+    "status" TEXT NOT NULL DEFAULT 'in_progress',
+    "recordsProcessed" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "sync_checkpoints_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sync_checkpoints_tenantId_resourceType_key" ON "public"."sync_checkpoints"("tenantId", "resourceType");
+
+-- AddForeignKey
+ALTER TABLE "public"."sync_checkpoints" ADD CONSTRAINT "sync_checkpoints_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "public"."tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
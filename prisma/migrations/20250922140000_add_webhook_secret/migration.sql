@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."tenants" ADD COLUMN     "webhookSecret" TEXT;
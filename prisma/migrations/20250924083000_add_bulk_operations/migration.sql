@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "public"."bulk_operations" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "backfillId" TEXT NOT NULL,
+    "resourceType" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "shopifyId" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "errorCode" TEXT,
+    "objectCount" INTEGER NOT NULL DEFAULT 0,
+    "url" TEXT,
+    "linesProcessed" INTEGER NOT NULL DEFAULT 0,
+    "recordsImported" INTEGER NOT NULL DEFAULT 0,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bulk_operations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "bulk_operations_tenantId_backfillId_idx" ON "public"."bulk_operations"("tenantId", "backfillId");
+
+-- AddForeignKey
+ALTER TABLE "public"."bulk_operations" ADD CONSTRAINT "bulk_operations_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "public"."tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."orders" ADD COLUMN     "customerShopifyId" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."order_items" ADD COLUMN     "productShopifyId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "orders_tenantId_customerShopifyId_idx" ON "public"."orders"("tenantId", "customerShopifyId");
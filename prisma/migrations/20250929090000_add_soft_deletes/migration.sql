@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."customers" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."orders" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."products" ADD COLUMN     "deletedAt" TIMESTAMP(3);
@@ -0,0 +1,52 @@
+-- AlterTable
+ALTER TABLE "public"."orders" ADD COLUMN     "totalRefunded" DECIMAL(65,30) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "public"."refunds" (
+    "id" TEXT NOT NULL,
+    "shopifyId" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "amount" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "note" TEXT,
+    "processedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "refunds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."refund_line_items" (
+    "id" TEXT NOT NULL,
+    "refundId" TEXT NOT NULL,
+    "lineItemShopifyId" TEXT,
+    "productId" TEXT,
+    "productShopifyId" TEXT,
+    "quantity" INTEGER NOT NULL,
+    "subtotal" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "totalTax" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "restockType" TEXT,
+
+    CONSTRAINT "refund_line_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "refunds_orderId_idx" ON "public"."refunds"("orderId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "refunds_shopifyId_tenantId_key" ON "public"."refunds"("shopifyId", "tenantId");
+
+-- CreateIndex
+CREATE INDEX "refund_line_items_refundId_idx" ON "public"."refund_line_items"("refundId");
+
+-- AddForeignKey
+ALTER TABLE "public"."refunds" ADD CONSTRAINT "refunds_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "public"."tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."refunds" ADD CONSTRAINT "refunds_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "public"."orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."refund_line_items" ADD CONSTRAINT "refund_line_items_refundId_fkey" FOREIGN KEY ("refundId") REFERENCES "public"."refunds"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."refund_line_items" ADD CONSTRAINT "refund_line_items_productId_fkey" FOREIGN KEY ("productId") REFERENCES "public"."products"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "public"."orders" ADD COLUMN     "totalDiscounts" DECIMAL(65,30) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "public"."order_discounts" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "code" TEXT,
+    "title" TEXT,
+    "kind" TEXT NOT NULL,
+    "valueType" TEXT,
+    "value" DECIMAL(65,30),
+    "amount" DECIMAL(65,30) NOT NULL DEFAULT 0,
+
+    CONSTRAINT "order_discounts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "order_discounts_orderId_idx" ON "public"."order_discounts"("orderId");
+
+-- CreateIndex
+CREATE INDEX "order_discounts_tenantId_code_idx" ON "public"."order_discounts"("tenantId", "code");
+
+-- AddForeignKey
+ALTER TABLE "public"."order_discounts" ADD CONSTRAINT "order_discounts_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "public"."tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."order_discounts" ADD CONSTRAINT "order_discounts_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "public"."orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,42 @@
+-- AlterTable
+ALTER TABLE "public"."order_items" ADD COLUMN     "variantShopifyId" TEXT;
+
+-- variantId used to hold the raw Shopify id; move it aside so the column can become a foreign key
+UPDATE "public"."order_items" SET "variantShopifyId" = "variantId", "variantId" = NULL WHERE "variantId" IS NOT NULL;
+
+-- CreateTable
+CREATE TABLE "public"."product_variants" (
+    "id" TEXT NOT NULL,
+    "shopifyId" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "inventoryItemId" TEXT,
+    "title" TEXT,
+    "sku" TEXT,
+    "price" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "compareAtPrice" DECIMAL(65,30),
+    "inventoryQuantity" INTEGER NOT NULL DEFAULT 0,
+    "option1" TEXT,
+    "option2" TEXT,
+    "option3" TEXT,
+    "position" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "product_variants_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "product_variants_productId_idx" ON "public"."product_variants"("productId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "product_variants_shopifyId_tenantId_key" ON "public"."product_variants"("shopifyId", "tenantId");
+
+-- AddForeignKey
+ALTER TABLE "public"."order_items" ADD CONSTRAINT "order_items_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "public"."product_variants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."product_variants" ADD CONSTRAINT "product_variants_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "public"."tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."product_variants" ADD CONSTRAINT "product_variants_productId_fkey" FOREIGN KEY ("productId") REFERENCES "public"."products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
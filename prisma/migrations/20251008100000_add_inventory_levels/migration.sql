@@ -0,0 +1,50 @@
+-- AlterTable
+ALTER TABLE "public"."tenants" ADD COLUMN     "lowStockThresholdDays" INTEGER NOT NULL DEFAULT 14;
+
+-- CreateTable
+CREATE TABLE "public"."locations" (
+    "id" TEXT NOT NULL,
+    "shopifyId" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "locations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."inventory_levels" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "locationId" TEXT NOT NULL,
+    "inventoryItemId" TEXT NOT NULL,
+    "variantId" TEXT,
+    "available" INTEGER NOT NULL DEFAULT 0,
+    "shopifyUpdatedAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "inventory_levels_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "locations_shopifyId_tenantId_key" ON "public"."locations"("shopifyId", "tenantId");
+
+-- CreateIndex
+CREATE INDEX "inventory_levels_variantId_idx" ON "public"."inventory_levels"("variantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "inventory_levels_tenantId_inventoryItemId_locationId_key" ON "public"."inventory_levels"("tenantId", "inventoryItemId", "locationId");
+
+-- AddForeignKey
+ALTER TABLE "public"."locations" ADD CONSTRAINT "locations_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "public"."tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."inventory_levels" ADD CONSTRAINT "inventory_levels_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "public"."tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."inventory_levels" ADD CONSTRAINT "inventory_levels_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "public"."locations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."inventory_levels" ADD CONSTRAINT "inventory_levels_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "public"."product_variants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
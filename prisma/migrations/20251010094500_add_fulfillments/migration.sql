@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "public"."tenants" ADD COLUMN     "shippingCostPerFulfillment" DECIMAL(65,30);
+
+-- CreateTable
+CREATE TABLE "public"."fulfillments" (
+    "id" TEXT NOT NULL,
+    "shopifyId" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "shipmentStatus" TEXT,
+    "trackingCompany" TEXT,
+    "trackingNumber" TEXT,
+    "shopifyCreatedAt" TIMESTAMP(3) NOT NULL,
+    "shopifyUpdatedAt" TIMESTAMP(3),
+
+    CONSTRAINT "fulfillments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "fulfillments_orderId_idx" ON "public"."fulfillments"("orderId");
+
+-- CreateIndex
+CREATE INDEX "fulfillments_tenantId_shopifyCreatedAt_idx" ON "public"."fulfillments"("tenantId", "shopifyCreatedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "fulfillments_shopifyId_tenantId_key" ON "public"."fulfillments"("shopifyId", "tenantId");
+
+-- AddForeignKey
+ALTER TABLE "public"."fulfillments" ADD CONSTRAINT "fulfillments_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "public"."tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."fulfillments" ADD CONSTRAINT "fulfillments_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "public"."orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
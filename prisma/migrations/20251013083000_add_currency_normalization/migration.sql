@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "public"."tenants" ADD COLUMN     "currency" TEXT,
+ADD COLUMN     "reportingCurrency" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."orders" ADD COLUMN     "presentmentCurrency" TEXT,
+ADD COLUMN     "totalPricePresentment" DECIMAL(65,30);
+
+-- CreateTable
+CREATE TABLE "public"."exchange_rates" (
+    "id" TEXT NOT NULL,
+    "base" TEXT NOT NULL,
+    "quote" TEXT NOT NULL,
+    "rate" DECIMAL(65,30) NOT NULL,
+    "date" DATE NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "exchange_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "exchange_rates_base_quote_date_key" ON "public"."exchange_rates"("base", "quote", "date");
@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "public"."customers" ADD COLUMN     "shopifyCreatedAt" TIMESTAMP(3),
+ADD COLUMN     "shopifyUpdatedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."products" ADD COLUMN     "shopifyCreatedAt" TIMESTAMP(3),
+ADD COLUMN     "shopifyUpdatedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."orders" ADD COLUMN     "shopifyCreatedAt" TIMESTAMP(3),
+ADD COLUMN     "shopifyUpdatedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "customers_tenantId_shopifyCreatedAt_idx" ON "public"."customers"("tenantId", "shopifyCreatedAt");
+
+-- CreateIndex
+CREATE INDEX "orders_tenantId_processedAt_idx" ON "public"."orders"("tenantId", "processedAt");
+
+-- Backfill: existing rows only gain their Shopify timestamps when they are synced again,
+-- so restart every tenant's order, customer and product checkpoint from the beginning.
+-- An in-progress checkpoint with no cursor and no window makes the next run a full sync.
+UPDATE "public"."sync_checkpoints"
+SET "status" = 'in_progress', "cursor" = NULL, "sinceUpdatedAt" = NULL, "highWaterUpdatedAt" = NULL, "recordsProcessed" = 0, "updatedAt" = CURRENT_TIMESTAMP
+WHERE "resourceType" IN ('orders', 'customers', 'products');
+
+-- Tenants synced before checkpoints existed would otherwise resume from their sync logs
+INSERT INTO "public"."sync_checkpoints" ("id", "tenantId", "resourceType", "status", "updatedAt")
+SELECT gen_random_uuid()::text, t."id", r."resourceType", 'in_progress', CURRENT_TIMESTAMP
+FROM "public"."tenants" t
+CROSS JOIN (VALUES ('orders'), ('customers'), ('products')) AS r("resourceType")
+WHERE NOT EXISTS (
+    SELECT 1 FROM "public"."sync_checkpoints" c
+    WHERE c."tenantId" = t."id" AND c."resourceType" = r."resourceType"
+);
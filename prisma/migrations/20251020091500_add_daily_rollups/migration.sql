@@ -0,0 +1,72 @@
+-- CreateTable
+CREATE TABLE "public"."daily_tenant_stats" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "day" DATE NOT NULL,
+    "currency" TEXT NOT NULL,
+    "deleted" BOOLEAN NOT NULL DEFAULT false,
+    "orders" INTEGER NOT NULL DEFAULT 0,
+    "refundedOrders" INTEGER NOT NULL DEFAULT 0,
+    "revenue" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "refunds" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "netRevenue" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "daily_tenant_stats_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."daily_product_stats" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "day" DATE NOT NULL,
+    "currency" TEXT NOT NULL,
+    "deleted" BOOLEAN NOT NULL DEFAULT false,
+    "productId" TEXT NOT NULL,
+    "variantId" TEXT,
+    "units" INTEGER NOT NULL DEFAULT 0,
+    "revenue" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "refundedUnits" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "daily_product_stats_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."daily_customer_stats" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "day" DATE NOT NULL,
+    "currency" TEXT NOT NULL,
+    "deleted" BOOLEAN NOT NULL DEFAULT false,
+    "customerId" TEXT NOT NULL,
+    "orders" INTEGER NOT NULL DEFAULT 0,
+    "revenue" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "daily_customer_stats_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "daily_tenant_stats_tenantId_day_currency_deleted_key" ON "public"."daily_tenant_stats"("tenantId", "day", "currency", "deleted");
+
+-- CreateIndex
+CREATE INDEX "daily_product_stats_tenantId_day_idx" ON "public"."daily_product_stats"("tenantId", "day");
+
+-- CreateIndex
+CREATE INDEX "daily_product_stats_tenantId_productId_idx" ON "public"."daily_product_stats"("tenantId", "productId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "daily_customer_stats_tenantId_day_currency_deleted_customerId_key" ON "public"."daily_customer_stats"("tenantId", "day", "currency", "deleted", "customerId");
+
+-- CreateIndex
+CREATE INDEX "daily_customer_stats_tenantId_customerId_idx" ON "public"."daily_customer_stats"("tenantId", "customerId");
+
+-- AddForeignKey
+ALTER TABLE "public"."daily_tenant_stats" ADD CONSTRAINT "daily_tenant_stats_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "public"."tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."daily_product_stats" ADD CONSTRAINT "daily_product_stats_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "public"."tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."daily_customer_stats" ADD CONSTRAINT "daily_customer_stats_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "public"."tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."sync_checkpoints" ADD COLUMN     "cursorApi" TEXT;
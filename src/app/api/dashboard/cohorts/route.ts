@@ -0,0 +1,218 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthenticatedUser } from '@/lib/auth-middleware'
+import { prisma } from '@/lib/db'
+import { ensureDailyRollups, localDay } from '@/lib/analytics-rollups'
+import { tenantCache } from '@/lib/cache'
+import { createCurrencyConverter, getReportingCurrency } from '@/lib/exchange-rates'
+import { getTenantTimezone, isDayKey, shiftDayKey, zonedDayKey } from '@/lib/timezone'
+
+const CACHE_TTL = 15 * 60 * 1000 // 15 minutes
+const DEFAULT_MONTHS = 6
+const MAX_MONTHS = 24
+
+// Customers of one cohort who ordered in one month after their first, and what they spent
+interface CohortCell {
+  cohort: string
+  monthOffset: number
+  customers: number
+  revenue: number
+}
+
+// Whole calendar months from one month to another, both given as day keys
+function monthsBetween(fromDay: string, toDay: string) {
+  const [fromYear, fromMonth] = fromDay.split('-').map(Number)
+  const [toYear, toMonth] = toDay.split('-').map(Number)
+  return (toYear - fromYear) * 12 + (toMonth - fromMonth)
+}
+
+// GET /api/dashboard/cohorts - Monthly customer cohorts and how many come back afterwards
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const tenantId = searchParams.get('tenantId')
+    const startDate = searchParams.get('startDate')
+    const endDate = searchParams.get('endDate')
+    // How many months after the first order to follow each cohort for
+    const months = Number(searchParams.get('months') || DEFAULT_MONTHS)
+
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 })
+    }
+
+    if (!Number.isInteger(months) || months < 1 || months > MAX_MONTHS) {
+      return NextResponse.json({
+        error: `months must be a whole number from 1 to ${MAX_MONTHS}`
+      }, { status: 400 })
+    }
+
+    // Both end up in SQL date casts, so anything else is turned away here
+    for (const [name, value] of [['startDate', startDate], ['endDate', endDate]]) {
+      if (value && !isDayKey(value)) {
+        return NextResponse.json({ error: `${name} must be a date as YYYY-MM-DD` }, { status: 400 })
+      }
+    }
+
+    if (startDate && endDate && startDate > endDate) {
+      return NextResponse.json({ error: 'startDate must not be after endDate' }, { status: 400 })
+    }
+
+    // Verify user owns the tenant
+    const tenant = await prisma.tenant.findFirst({
+      where: {
+        id: tenantId,
+        userId: user.id
+      }
+    })
+
+    if (!tenant) {
+      return NextResponse.json({ error: 'Tenant not found' }, { status: 404 })
+    }
+
+    const timezone = getTenantTimezone(tenant)
+    const currentMonth = `${zonedDayKey(new Date(), timezone).slice(0, 7)}-01`
+
+    // Cohorts are the months the range touches, or the last 12 months without one
+    const firstCohort = startDate ? `${startDate.slice(0, 7)}-01` : shiftDayKey(currentMonth, { months: -11 })
+    const lastCohort = endDate ? `${endDate.slice(0, 7)}-01` : currentMonth
+    // Orders after the last month the newest cohort is followed for cannot change the result
+    const windowEnd = shiftDayKey(lastCohort, { months: months + 1 })
+
+    const cacheKey = `cohorts:${firstCohort}:${lastCohort}:${months}:${timezone}`
+    const { value: result, status: cacheStatus } = await tenantCache.getOrLoad(tenantId, cacheKey, CACHE_TTL, async () => {
+      await ensureDailyRollups(tenantId)
+
+      // Revenue is converted per day and currency, so the rates come from the daily rollups,
+      // which hold exactly the days and currencies orders were placed in
+      const currencyDays = await prisma.$queryRaw<Array<{ currency: string; day: string }>>`
+        SELECT DISTINCT s."currency" AS "currency", to_char(s."day", 'YYYY-MM-DD') AS "day"
+        FROM "daily_tenant_stats" AS s
+        WHERE s."tenantId" = ${tenantId} AND s."deleted" = false
+          AND s."day" >= ${firstCohort}::date AND s."day" < ${windowEnd}::date
+      `
+
+      const dayDate = (day: string) => new Date(`${day}T00:00:00.000Z`)
+      const converter = await createCurrencyConverter(
+        getReportingCurrency(tenant, currencyDays[0]?.currency),
+        currencyDays.map(row => ({ currency: row.currency, date: dayDate(row.day) }))
+      )
+
+      // Orders with no known rate still count towards retention, just not revenue
+      const rates = { currencies: [] as string[], days: [] as string[], values: [] as number[] }
+      for (const row of currencyDays) {
+        const rate = converter.convert(1, row.currency, dayDate(row.day))
+        if (rate === null) continue
+        rates.currencies.push(row.currency)
+        rates.days.push(row.day)
+        rates.values.push(rate)
+      }
+
+      // A customer belongs to the month of their first order, in the shop's timezone, and is
+      // retained in every later month they order again. Cancelled and deleted orders do not
+      // count as coming back. Only orders inside the cohort window are read; customers who
+      // ordered before it are looked up per customer and left out, as their cohort is earlier
+      const rows = await prisma.$queryRaw<CohortCell[]>`
+        WITH rates AS (
+          SELECT * FROM unnest(${rates.currencies}::text[], ${rates.days}::date[], ${rates.values}::float8[])
+            AS r("currency", "day", "rate")
+        ),
+        activity AS (
+          SELECT o."customerId" AS "customerId",
+            date_trunc('month', ${localDay(timezone)})::date AS "month",
+            COALESCE(SUM(o."totalPrice" * CASE WHEN o."currency" = ${converter.currency} THEN 1 ELSE r."rate" END), 0) AS "revenue"
+          FROM "orders" AS o
+          JOIN "customers" AS c ON c."id" = o."customerId" AND c."deletedAt" IS NULL
+          LEFT JOIN rates AS r ON r."currency" = o."currency" AND r."day" = ${localDay(timezone)}
+          WHERE o."tenantId" = ${tenantId}
+            AND o."deletedAt" IS NULL
+            AND o."cancelledAt" IS NULL
+            AND ${localDay(timezone)} >= ${firstCohort}::date
+            AND ${localDay(timezone)} < ${windowEnd}::date
+          GROUP BY 1, 2
+        ),
+        cohorts AS (
+          SELECT a."customerId", MIN(a."month") AS "cohort"
+          FROM activity AS a
+          WHERE NOT EXISTS (
+            SELECT 1 FROM "orders" AS o
+            WHERE o."tenantId" = ${tenantId}
+              AND o."customerId" = a."customerId"
+              AND o."deletedAt" IS NULL
+              AND o."cancelledAt" IS NULL
+              AND ${localDay(timezone)} < ${firstCohort}::date
+          )
+          GROUP BY 1
+        )
+        SELECT to_char(k."cohort", 'YYYY-MM-DD') AS "cohort",
+          ((EXTRACT(YEAR FROM a."month") - EXTRACT(YEAR FROM k."cohort")) * 12
+            + EXTRACT(MONTH FROM a."month") - EXTRACT(MONTH FROM k."cohort"))::int AS "monthOffset",
+          COUNT(*)::int AS "customers",
+          SUM(a."revenue")::float8 AS "revenue"
+        FROM activity AS a
+        JOIN cohorts AS k ON k."customerId" = a."customerId"
+        WHERE k."cohort" BETWEEN ${firstCohort}::date AND ${lastCohort}::date
+          AND a."month" <= k."cohort" + make_interval(months => ${months})
+        GROUP BY 1, 2
+        ORDER BY 1, 2
+      `
+
+      const cells = new Map<string, CohortCell>(rows.map((row: CohortCell) => [`${row.cohort}:${row.monthOffset}`, row]))
+
+      const cohorts = []
+      for (let cohort = firstCohort; cohort <= lastCohort; cohort = shiftDayKey(cohort, { months: 1 })) {
+        const size = cells.get(`${cohort}:0`)?.customers || 0
+        // Months that have not happened yet have no retention to report
+        const elapsed = monthsBetween(cohort, currentMonth)
+
+        const retention = []
+        for (let monthOffset = 0; monthOffset <= months; monthOffset++) {
+          const cell = cells.get(`${cohort}:${monthOffset}`)
+          const complete = monthOffset <= elapsed
+          retention.push({
+            month: monthOffset,
+            customers: complete ? cell?.customers || 0 : null,
+            percentage: complete && size > 0 ? ((cell?.customers || 0) / size) * 100 : null,
+            revenue: complete ? cell?.revenue || 0 : null
+          })
+        }
+
+        cohorts.push({
+          cohort: cohort.slice(0, 7),
+          customers: size,
+          revenue: retention.reduce((sum, cell) => sum + (cell.revenue || 0), 0),
+          retention
+        })
+      }
+
+      return {
+        tenantId,
+        currency: converter.currency,
+        timezone,
+        months,
+        period: {
+          startDate: firstCohort,
+          endDate: lastCohort
+        },
+        missingRates: converter.missingRates(),
+        cohorts
+      }
+    })
+
+    return NextResponse.json(result, {
+      headers: {
+        'X-Cache': cacheStatus,
+        'X-Cache-Backend': tenantCache.backendName
+      }
+    })
+
+  } catch (error) {
+    console.error('Get cohort retention error:', error)
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Internal server error'
+    }, { status: 500 })
+  }
+}
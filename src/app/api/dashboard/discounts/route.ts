@@ -0,0 +1,178 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { getAuthenticatedUser } from '@/lib/auth-middleware'
+import { prisma } from '@/lib/db'
+import { localDay } from '@/lib/analytics-rollups'
+import { createCurrencyConverter, getReportingCurrency } from '@/lib/exchange-rates'
+import { getTenantTimezone } from '@/lib/timezone'
+
+// Orders that used one code, case-insensitively, and what they brought in
+interface CodeRow {
+  code: string
+  usageCount: number
+  revenue: number
+  totalDiscount: number
+}
+
+interface SummaryRow {
+  discountedOrders: number
+  baselineOrders: number
+  baselineRevenue: number
+  lineItemDiscounts: number
+}
+
+// GET /api/dashboard/discounts - Per-code discount performance for a date range
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const tenantId = searchParams.get('tenantId')
+    const startDate = searchParams.get('startDate')
+    const endDate = searchParams.get('endDate')
+
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 })
+    }
+
+    // Verify user owns the tenant
+    const tenant = await prisma.tenant.findFirst({
+      where: {
+        id: tenantId,
+        userId: user.id
+      }
+    })
+
+    if (!tenant) {
+      return NextResponse.json({ error: 'Tenant not found' }, { status: 404 })
+    }
+
+    // Same window semantics as the metrics route: orders count on the day they were processed
+    // in the shop's timezone, or created when Shopify never processed them. No dates means all history
+    const timezone = getTenantTimezone(tenant)
+    const orderWindow = startDate && endDate
+      ? Prisma.sql`AND ${localDay(timezone)} BETWEEN ${startDate}::date AND ${endDate}::date`
+      : Prisma.empty
+
+    // All amounts are reported in the tenant's reporting currency, converted per day and currency
+    const currencyDays = await prisma.$queryRaw<Array<{ currency: string; day: string }>>`
+      SELECT DISTINCT o."currency" AS "currency", to_char(${localDay(timezone)}, 'YYYY-MM-DD') AS "day"
+      FROM "orders" AS o
+      WHERE o."tenantId" = ${tenantId} AND o."deletedAt" IS NULL ${orderWindow}
+    `
+
+    const dayDate = (day: string) => new Date(`${day}T00:00:00.000Z`)
+    const converter = await createCurrencyConverter(
+      getReportingCurrency(tenant, currencyDays[0]?.currency),
+      currencyDays.map(row => ({ currency: row.currency, date: dayDate(row.day) }))
+    )
+
+    // Amounts with no known rate are left out of the sums, orders still count
+    const rates = { currencies: [] as string[], days: [] as string[], values: [] as number[] }
+    for (const row of currencyDays) {
+      const rate = converter.convert(1, row.currency, dayDate(row.day))
+      if (rate === null) continue
+      rates.currencies.push(row.currency)
+      rates.days.push(row.day)
+      rates.values.push(rate)
+    }
+
+    const scopedOrders = Prisma.sql`
+      rates AS (
+        SELECT * FROM unnest(${rates.currencies}::text[], ${rates.days}::date[], ${rates.values}::float8[])
+          AS r("currency", "day", "rate")
+      ),
+      scoped AS (
+        SELECT o."id", o."totalPrice",
+          COALESCE(CASE WHEN o."currency" = ${converter.currency} THEN 1 ELSE r."rate" END, 0) AS "rate"
+        FROM "orders" AS o
+        LEFT JOIN rates AS r ON r."currency" = o."currency" AND r."day" = ${localDay(timezone)}
+        WHERE o."tenantId" = ${tenantId} AND o."deletedAt" IS NULL ${orderWindow}
+      )`
+
+    const [codeRows, [summary]] = await Promise.all([
+      // Codes are matched case-insensitively, as Shopify does at checkout. An order that
+      // applied the same code twice counts once, with both amounts
+      prisma.$queryRaw<CodeRow[]>`
+        WITH ${scopedOrders},
+        code_orders AS (
+          SELECT UPPER(d."code") AS "key", MIN(d."code") AS "code", d."orderId", SUM(d."amount") AS "amount"
+          FROM "order_discounts" AS d
+          WHERE d."tenantId" = ${tenantId} AND d."code" IS NOT NULL
+          GROUP BY 1, 3
+        )
+        SELECT MIN(c."code") AS "code",
+          COUNT(*)::int AS "usageCount",
+          COALESCE(SUM(s."totalPrice" * s."rate"), 0)::float8 AS "revenue",
+          COALESCE(SUM(c."amount" * s."rate"), 0)::float8 AS "totalDiscount"
+        FROM code_orders AS c
+        JOIN scoped AS s ON s."id" = c."orderId"
+        GROUP BY c."key"
+      `,
+      // Orders that used no code are the yardstick for AOV lift
+      prisma.$queryRaw<SummaryRow[]>`
+        WITH ${scopedOrders},
+        baseline AS (
+          SELECT s.* FROM scoped AS s
+          WHERE NOT EXISTS (
+            SELECT 1 FROM "order_discounts" AS d WHERE d."orderId" = s."id" AND d."code" IS NOT NULL
+          )
+        )
+        SELECT
+          ((SELECT COUNT(*) FROM scoped) - (SELECT COUNT(*) FROM baseline))::int AS "discountedOrders",
+          (SELECT COUNT(*) FROM baseline)::int AS "baselineOrders",
+          (SELECT COALESCE(SUM("totalPrice" * "rate"), 0)::float8 FROM baseline) AS "baselineRevenue",
+          (SELECT COALESCE(SUM(oi."totalDiscount" * s."rate"), 0)::float8
+            FROM "order_items" AS oi JOIN scoped AS s ON s."id" = oi."orderId"
+            WHERE oi."totalDiscount" > 0) AS "lineItemDiscounts"
+      `
+    ])
+
+    const { discountedOrders, baselineOrders } = summary
+    const baselineAov = baselineOrders > 0 ? summary.baselineRevenue / baselineOrders : 0
+
+    const codes = codeRows
+      .map(({ code, usageCount, revenue, totalDiscount }) => {
+        const averageOrderValue = usageCount > 0 ? revenue / usageCount : 0
+
+        return {
+          code,
+          usageCount,
+          revenue,
+          totalDiscount,
+          averageDiscount: usageCount > 0 ? totalDiscount / usageCount : 0,
+          averageOrderValue,
+          // Percentage difference against orders placed without a code
+          aovLift: baselineAov > 0 ? ((averageOrderValue - baselineAov) / baselineAov) * 100 : null
+        }
+      })
+      .sort((a, b) => b.revenue - a.revenue)
+
+    return NextResponse.json({
+      tenantId,
+      currency: converter.currency,
+      missingRates: converter.missingRates(),
+      period: {
+        startDate: startDate || null,
+        endDate: endDate || null
+      },
+      summary: {
+        discountedOrders,
+        baselineOrders,
+        baselineAov,
+        totalCodeDiscounts: codes.reduce((sum, c) => sum + c.totalDiscount, 0),
+        lineItemDiscounts: summary.lineItemDiscounts
+      },
+      codes
+    })
+
+  } catch (error) {
+    console.error('Get discount metrics error:', error)
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Internal server error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,200 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthenticatedUser } from '@/lib/auth-middleware'
+import { prisma } from '@/lib/db'
+import { createCurrencyConverter, getReportingCurrency } from '@/lib/exchange-rates'
+import { getTenantTimezone, zonedDayRange } from '@/lib/timezone'
+
+const HOUR_MS = 60 * 60 * 1000
+
+// Backlog age buckets, in days since the order was placed
+const BACKLOG_BUCKETS = [
+  { label: '<1d', maxDays: 1 },
+  { label: '1-3d', maxDays: 3 },
+  { label: '3-7d', maxDays: 7 },
+  { label: '7-14d', maxDays: 14 },
+  { label: '14d+', maxDays: Infinity }
+]
+
+// Nearest-rank percentile over an ascending list
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null
+  const rank = Math.ceil((p / 100) * sorted.length) - 1
+  return sorted[Math.min(Math.max(rank, 0), sorted.length - 1)]
+}
+
+// GET /api/dashboard/fulfillment - Time to fulfill, backlog aging and shipping economics
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const tenantId = searchParams.get('tenantId')
+    const startDate = searchParams.get('startDate')
+    const endDate = searchParams.get('endDate')
+
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 })
+    }
+
+    // Verify user owns the tenant
+    const tenant = await prisma.tenant.findFirst({
+      where: {
+        id: tenantId,
+        userId: user.id
+      }
+    })
+
+    if (!tenant) {
+      return NextResponse.json({ error: 'Tenant not found' }, { status: 404 })
+    }
+
+    // Same window semantics as the metrics route; no dates means all history
+    const orderFilter: any = { tenantId, deletedAt: null, cancelledAt: null }
+    if (startDate && endDate) {
+      orderFilter.processedAt = zonedDayRange(startDate, endDate, getTenantTimezone(tenant))
+    }
+
+    const [orders, backlogOrders] = await Promise.all([
+      prisma.order.findMany({
+        where: orderFilter,
+        select: {
+          processedAt: true,
+          createdAt: true,
+          currency: true,
+          totalShipping: true,
+          fulfillments: {
+            where: { status: 'success' },
+            select: { shopifyCreatedAt: true, trackingCompany: true },
+            orderBy: { shopifyCreatedAt: 'asc' }
+          }
+        }
+      }),
+      // The backlog is what is waiting right now, whatever the selected range
+      prisma.order.findMany({
+        where: {
+          tenantId,
+          deletedAt: null,
+          cancelledAt: null,
+          OR: [
+            { fulfillmentStatus: null },
+            // REST reports null/partial, GraphQL unfulfilled/partially_fulfilled
+            { fulfillmentStatus: { in: ['unfulfilled', 'partial', 'partially_fulfilled'] } }
+          ]
+        },
+        select: { processedAt: true, createdAt: true, fulfillmentStatus: true }
+      })
+    ])
+
+    // Shipping revenue is reported in the tenant's reporting currency
+    const converter = await createCurrencyConverter(
+      getReportingCurrency(tenant, orders[0]?.currency),
+      orders.map(order => ({ currency: order.currency, date: order.processedAt || order.createdAt }))
+    )
+
+    // Time to fulfill runs from when Shopify processed the order to its first shipment
+    const hoursToFulfill: number[] = []
+    const carriers = new Map<string, { shipments: number; hours: number[] }>()
+    let shippingRevenue = 0
+    let shipments = 0
+
+    for (const order of orders) {
+      shippingRevenue += converter.convert(
+        Number(order.totalShipping || 0), order.currency, order.processedAt || order.createdAt
+      ) ?? 0
+      shipments += order.fulfillments.length
+
+      const placedAt = order.processedAt || order.createdAt
+      const first = order.fulfillments[0]
+      if (first) {
+        const hours = Math.max(first.shopifyCreatedAt.getTime() - placedAt.getTime(), 0) / HOUR_MS
+        hoursToFulfill.push(hours)
+
+        const carrier = first.trackingCompany || 'Unknown'
+        const entry = carriers.get(carrier) || { shipments: 0, hours: [] }
+        entry.hours.push(hours)
+        carriers.set(carrier, entry)
+      }
+
+      for (const fulfillment of order.fulfillments) {
+        const carrier = fulfillment.trackingCompany || 'Unknown'
+        const entry = carriers.get(carrier) || { shipments: 0, hours: [] }
+        entry.shipments++
+        carriers.set(carrier, entry)
+      }
+    }
+
+    hoursToFulfill.sort((a, b) => a - b)
+
+    const now = Date.now()
+    const backlog = BACKLOG_BUCKETS.map(bucket => ({ label: bucket.label, orders: 0 }))
+    let oldestBacklogDays: number | null = null
+    for (const order of backlogOrders) {
+      const ageDays = (now - (order.processedAt || order.createdAt).getTime()) / (24 * HOUR_MS)
+      const index = BACKLOG_BUCKETS.findIndex(bucket => ageDays < bucket.maxDays)
+      backlog[index].orders++
+      oldestBacklogDays = Math.max(oldestBacklogDays ?? 0, ageDays)
+    }
+
+    // Carrier costs are not available from Shopify, so cost is a per-shipment estimate
+    // taken from the tenant settings (in the reporting currency), when one has been configured
+    const costPerShipment = tenant.shippingCostPerFulfillment !== null
+      ? Number(tenant.shippingCostPerFulfillment)
+      : null
+    const shippingCost = costPerShipment !== null ? costPerShipment * shipments : null
+
+    return NextResponse.json({
+      tenantId,
+      period: {
+        startDate: startDate || null,
+        endDate: endDate || null
+      },
+      timeToFulfill: {
+        fulfilledOrders: hoursToFulfill.length,
+        unfulfilledOrders: orders.length - hoursToFulfill.length,
+        averageHours: hoursToFulfill.length > 0
+          ? hoursToFulfill.reduce((sum, hours) => sum + hours, 0) / hoursToFulfill.length
+          : null,
+        p50Hours: percentile(hoursToFulfill, 50),
+        p75Hours: percentile(hoursToFulfill, 75),
+        p90Hours: percentile(hoursToFulfill, 90),
+        p95Hours: percentile(hoursToFulfill, 95)
+      },
+      backlog: {
+        orders: backlogOrders.length,
+        partiallyFulfilled: backlogOrders.filter(order =>
+          order.fulfillmentStatus === 'partial' || order.fulfillmentStatus === 'partially_fulfilled'
+        ).length,
+        oldestDays: oldestBacklogDays,
+        aging: backlog
+      },
+      shipping: {
+        currency: converter.currency,
+        missingRates: converter.missingRates(),
+        revenue: shippingRevenue,
+        shipments,
+        costPerShipment,
+        estimatedCost: shippingCost,
+        margin: shippingCost !== null ? shippingRevenue - shippingCost : null
+      },
+      carriers: Array.from(carriers.entries())
+        .map(([name, entry]) => {
+          const sorted = [...entry.hours].sort((a, b) => a - b)
+          return {
+            name,
+            shipments: entry.shipments,
+            p50Hours: percentile(sorted, 50)
+          }
+        })
+        .sort((a, b) => b.shipments - a.shipments)
+    })
+
+  } catch (error) {
+    console.error('Get fulfillment metrics error:', error)
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Internal server error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthenticatedUser } from '@/lib/auth-middleware'
+import { prisma } from '@/lib/db'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MAX_LIMIT = 250
+
+// GET /api/dashboard/inventory - Stock on hand, sell-through and days of stock per variant
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const tenantId = searchParams.get('tenantId')
+    // Sales window the daily sell rate is averaged over
+    const days = Math.max(parseInt(searchParams.get('days') || '30') || 30, 1)
+    const thresholdParam = searchParams.get('threshold')
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50') || 50, 1), MAX_LIMIT)
+
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 })
+    }
+
+    // Verify user owns the tenant
+    const tenant = await prisma.tenant.findFirst({
+      where: {
+        id: tenantId,
+        userId: user.id
+      }
+    })
+
+    if (!tenant) {
+      return NextResponse.json({ error: 'Tenant not found' }, { status: 404 })
+    }
+
+    // Missing or unparseable thresholds fall back to the tenant's setting
+    const threshold = Math.max(parseInt(thresholdParam || '') || tenant.lowStockThresholdDays, 1)
+    const salesSince = new Date(Date.now() - days * DAY_MS)
+
+    const [variants, sales] = await Promise.all([
+      prisma.productVariant.findMany({
+        where: {
+          tenantId,
+          product: { deletedAt: null, status: 'active' }
+        },
+        select: {
+          id: true,
+          sku: true,
+          title: true,
+          inventoryQuantity: true,
+          product: { select: { id: true, title: true } },
+          inventoryLevels: {
+            select: {
+              available: true,
+              location: { select: { name: true, active: true } }
+            }
+          }
+        }
+      }),
+      prisma.orderItem.groupBy({
+        by: ['variantId'],
+        where: {
+          variantId: { not: null },
+          order: {
+            tenantId,
+            deletedAt: null,
+            cancelledAt: null,
+            processedAt: { gte: salesSince }
+          }
+        },
+        _sum: { quantity: true }
+      })
+    ])
+
+    const unitsSold = new Map<string, number>(
+      sales.map((row: any) => [row.variantId, Number(row._sum.quantity || 0)])
+    )
+
+    const items = variants.map((variant: any) => {
+      const locations = variant.inventoryLevels
+        .filter((level: any) => level.location.active)
+        .map((level: any) => ({ name: level.location.name, available: level.available }))
+      // Variants without synced levels fall back to the total from product sync
+      const stockOnHand = locations.length > 0
+        ? locations.reduce((sum: number, location: any) => sum + location.available, 0)
+        : variant.inventoryQuantity
+      const sold = unitsSold.get(variant.id) || 0
+      const dailySellRate = sold / days
+      const daysOfStock = dailySellRate > 0 ? Math.max(stockOnHand, 0) / dailySellRate : null
+
+      return {
+        variantId: variant.id,
+        productId: variant.product.id,
+        productTitle: variant.product.title,
+        title: variant.title,
+        sku: variant.sku,
+        stockOnHand,
+        locations,
+        unitsSold: sold,
+        dailySellRate,
+        // Share of the available units (sold + left) that sold in the window
+        sellThroughRate: sold + Math.max(stockOnHand, 0) > 0
+          ? (sold / (sold + Math.max(stockOnHand, 0))) * 100
+          : 0,
+        daysOfStock,
+        // Only variants that are actually selling can run out
+        lowStock: daysOfStock !== null && daysOfStock < threshold
+      }
+    })
+
+    // Most urgent first; variants with no recent sales go last
+    items.sort((a: any, b: any) => {
+      if (a.daysOfStock === null) return b.daysOfStock === null ? b.stockOnHand - a.stockOnHand : 1
+      if (b.daysOfStock === null) return -1
+      return a.daysOfStock - b.daysOfStock
+    })
+
+    const lowStock = items.filter((item: any) => item.lowStock)
+
+    return NextResponse.json({
+      tenantId,
+      threshold,
+      days,
+      summary: {
+        variantsTracked: items.length,
+        lowStockCount: lowStock.length,
+        outOfStockCount: items.filter((item: any) => item.stockOnHand <= 0).length,
+        totalStockOnHand: items.reduce((sum: number, item: any) => sum + Math.max(item.stockOnHand, 0), 0)
+      },
+      items: items.slice(0, limit)
+    })
+
+  } catch (error) {
+    console.error('Get inventory metrics error:', error)
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Internal server error'
+    }, { status: 500 })
+  }
+}
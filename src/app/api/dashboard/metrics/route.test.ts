@@ -0,0 +1,217 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+
+// Checks against seeded stores, including response times for a realistic order volume.
+// They need a migrated Postgres database, so they only run when DATABASE_URL is set (see the README)
+const ORDERS = Number(process.env.PERF_ORDERS || 200000)
+const CUSTOMERS = Math.ceil(ORDERS / 8)
+const PRODUCTS = 500
+const BUDGET_MS = Number(process.env.PERF_BUDGET_MS || 1500)
+
+const { authenticatedUser } = vi.hoisted(() => ({ authenticatedUser: { id: '' } }))
+
+vi.mock('@/lib/auth-middleware', () => ({
+  getAuthenticatedUser: vi.fn(async () => authenticatedUser)
+}))
+
+const describeWithDatabase = process.env.DATABASE_URL ? describe : describe.skip
+
+// Imported once a database is known to be there; these modules connect on load
+async function loadModules() {
+  const { prisma } = await import('@/lib/db')
+  const { GET } = await import('@/app/api/dashboard/metrics/route')
+  const { tenantCache } = await import('@/lib/cache')
+  const { rebuildDailyRollups } = await import('@/lib/analytics-rollups')
+  return { prisma, GET, tenantCache, rebuildDailyRollups }
+}
+
+type Modules = Awaited<ReturnType<typeof loadModules>>
+
+// A user with one store, signed in for the requests that follow
+async function createStore({ prisma }: Modules, name: string) {
+  const suffix = `${name}-${Date.now().toString(36)}`
+  const user = await prisma.user.create({
+    data: { email: `${suffix}@example.com` }
+  })
+  const tenant = await prisma.tenant.create({
+    data: {
+      name,
+      shopifyDomain: `${suffix}.myshopify.com`,
+      currency: 'USD',
+      timezone: 'America/New_York',
+      userId: user.id
+    }
+  })
+  authenticatedUser.id = user.id
+  return { userId: user.id, tenantId: tenant.id }
+}
+
+// Fetches metrics without the cache, timing the request
+async function uncachedRequest({ GET, tenantCache }: Modules, tenantId: string, params: Record<string, string>) {
+  await tenantCache.invalidateTenant(tenantId)
+  const url = new URL('http://localhost/api/dashboard/metrics')
+  url.search = new URLSearchParams({ tenantId, ...params }).toString()
+
+  const started = performance.now()
+  const response = await GET(new NextRequest(url))
+  const elapsed = performance.now() - started
+
+  expect(response.status).toBe(200)
+  expect(response.headers.get('X-Cache')).toBe('MISS')
+  return { body: await response.json(), elapsed }
+}
+
+describeWithDatabase('GET /api/dashboard/metrics on a large store', () => {
+  let modules: Modules
+  let userId: string
+  let tenantId: string
+
+  beforeAll(async () => {
+    modules = await loadModules()
+    const { prisma, rebuildDailyRollups } = modules
+
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+
+    ;({ userId, tenantId } = await createStore(modules, 'perf'))
+
+    // Two years of orders spread over every hour of the day, two lines each
+    const prefix = `${tenantId}-`
+    await prisma.$executeRaw`
+      INSERT INTO "customers" ("id", "shopifyId", "tenantId", "email", "shopifyCreatedAt", "updatedAt")
+      SELECT ${prefix} || 'c' || g, g::text, ${tenantId}, 'customer' || g || '@example.com',
+        now() - (g % 730) * interval '1 day', now()
+      FROM generate_series(1, ${CUSTOMERS}::int) AS g
+    `
+    await prisma.$executeRaw`
+      INSERT INTO "products" ("id", "shopifyId", "tenantId", "title", "updatedAt")
+      SELECT ${prefix} || 'p' || g, g::text, ${tenantId}, 'Product ' || g, now()
+      FROM generate_series(1, ${PRODUCTS}::int) AS g
+    `
+    await prisma.$executeRaw`
+      INSERT INTO "orders"
+        ("id", "shopifyId", "tenantId", "customerId", "orderNumber", "totalPrice", "totalRefunded", "currency", "processedAt", "updatedAt")
+      SELECT ${prefix} || 'o' || g, g::text, ${tenantId}, ${prefix} || 'c' || (g % ${CUSTOMERS}::int + 1), g::text,
+        10 + g % 190, CASE WHEN g % 20 = 0 THEN 5 ELSE 0 END, 'USD',
+        now() - (g % 730) * interval '1 day' - (g % 24) * interval '1 hour', now()
+      FROM generate_series(1, ${ORDERS}::int) AS g
+    `
+    await prisma.$executeRaw`
+      INSERT INTO "order_items" ("id", "orderId", "productId", "title", "quantity", "price")
+      SELECT o."id" || '-' || n, o."id", ${prefix} || 'p' || ((o."shopifyId"::int * n) % ${PRODUCTS}::int + 1),
+        'Line ' || n, n, 10 + n
+      FROM "orders" AS o
+      CROSS JOIN generate_series(1, 2) AS n
+      WHERE o."tenantId" = ${tenantId}
+    `
+
+    await rebuildDailyRollups(tenantId)
+  }, 600000)
+
+  afterAll(async () => {
+    if (userId) {
+      // Tenants and everything synced for them go with the user
+      await modules.prisma.user.delete({ where: { id: userId } })
+    }
+    vi.restoreAllMocks()
+  }, 120000)
+
+  const timedRequest = (params: Record<string, string>) => uncachedRequest(modules, tenantId, params)
+
+  it('totals all history within budget', async () => {
+    const { body, elapsed } = await timedRequest({})
+
+    expect(body.totalOrders).toBe(ORDERS)
+    expect(body.topCustomers.length).toBeGreaterThan(0)
+    expect(body.topProducts.length).toBeGreaterThan(0)
+    expect(elapsed).toBeLessThan(BUDGET_MS)
+  })
+
+  it('serves a 90 day range compared with the previous period within budget', async () => {
+    const endDate = new Date().toISOString().slice(0, 10)
+    const startDate = new Date(Date.now() - 89 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+
+    const { body, elapsed } = await timedRequest({ startDate, endDate, compare: 'previous_period' })
+
+    expect(body.totalOrders).toBeGreaterThan(0)
+    expect(body.comparison).not.toBeNull()
+    expect(elapsed).toBeLessThan(BUDGET_MS)
+  })
+
+  it('serves a year grouped by week within budget', async () => {
+    const endDate = new Date().toISOString().slice(0, 10)
+    const startDate = new Date(Date.now() - 364 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+
+    const { body, elapsed } = await timedRequest({ startDate, endDate, granularity: 'week' })
+
+    expect(body.granularity).toBe('week')
+    expect(body.revenueTrends.length).toBeGreaterThanOrEqual(52)
+    expect(elapsed).toBeLessThan(BUDGET_MS)
+  })
+})
+
+describeWithDatabase('GET /api/dashboard/metrics with soft-deleted products', () => {
+  let modules: Modules
+  let userId: string
+  let tenantId: string
+
+  beforeAll(async () => {
+    modules = await loadModules()
+    const { prisma, rebuildDailyRollups } = modules
+
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+
+    ;({ userId, tenantId } = await createStore(modules, 'deleted-products'))
+
+    // The deleted product outsells the live one, so it would top the list if counted
+    const live = await prisma.product.create({
+      data: { shopifyId: '1', tenantId, title: 'Live product' }
+    })
+    const deleted = await prisma.product.create({
+      data: { shopifyId: '2', tenantId, title: 'Deleted product', deletedAt: new Date() }
+    })
+    const [liveVariant, deletedVariant] = await Promise.all([live, deleted].map(product =>
+      prisma.productVariant.create({
+        data: { shopifyId: `${product.shopifyId}01`, tenantId, productId: product.id, title: 'Default', price: 10 }
+      })
+    ))
+    await prisma.order.create({
+      data: {
+        shopifyId: '1001',
+        tenantId,
+        orderNumber: '1001',
+        totalPrice: 110,
+        currency: 'USD',
+        processedAt: new Date(),
+        orderItems: {
+          create: [
+            { productId: live.id, variantId: liveVariant.id, title: 'Live product', quantity: 1, price: 10 },
+            { productId: deleted.id, variantId: deletedVariant.id, title: 'Deleted product', quantity: 10, price: 10 }
+          ]
+        }
+      }
+    })
+
+    await rebuildDailyRollups(tenantId)
+  }, 120000)
+
+  afterAll(async () => {
+    if (userId) {
+      await modules.prisma.user.delete({ where: { id: userId } })
+    }
+    vi.restoreAllMocks()
+  }, 120000)
+
+  it('leaves deleted products out of the top products by default', async () => {
+    const { body } = await uncachedRequest(modules, tenantId, {})
+
+    expect(body.topProducts.map((product: { title: string }) => product.title)).toEqual(['Live product'])
+    expect(body.topProducts[0].variants).toHaveLength(1)
+  })
+
+  it('lists deleted products when asked to include deleted records', async () => {
+    const { body } = await uncachedRequest(modules, tenantId, { includeDeleted: 'true' })
+
+    expect(body.topProducts.map((product: { title: string }) => product.title)).toEqual(['Deleted product', 'Live product'])
+    expect(body.topProducts[0].variants[0].unitsSold).toBe(10)
+  })
+})
@@ -1,6 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getAuthenticatedUser } from '@/lib/auth-middleware'
-import { PrismaClient } from '@prisma/client'
+import { Prisma, PrismaClient } from '@prisma/client'
+import { createCurrencyConverter, getReportingCurrency } from '@/lib/exchange-rates'
+import {
+  GRANULARITIES,
+  Granularity,
+  autoGranularity,
+  daysBetween,
+  getTenantTimezone,
+  shiftDayKey,
+  startOfPeriod,
+  startOfZonedMonth,
+  zonedDayKey
+} from '@/lib/timezone'
+import { tenantCache } from '@/lib/cache'
+import { ensureDailyRollups } from '@/lib/analytics-rollups'
 
 // Optimized Prisma client with connection pooling
 const prisma = new PrismaClient({
@@ -12,40 +26,218 @@ const prisma = new PrismaClient({
   log: ['warn', 'error'], // Reduce logging overhead
 })
 
-// Add a simple in-memory cache for frequently accessed data
-const cache = new Map<string, { data: any; timestamp: number }>()
-const authCache = new Map<string, { user: any; timestamp: number }>()
-const CACHE_TTL = 15 * 60 * 1000 // 15 minutes (increased for better performance)
-const AUTH_CACHE_TTL = 10 * 60 * 1000 // 10 minutes for auth cache
+// Metrics go through the shared tenant cache, which every sync invalidates, so the TTL
+// only bounds how long an idle entry is kept
+const CACHE_TTL = 15 * 60 * 1000 // 15 minutes
 
-function getCacheKey(tenantId: string, startDate?: string, endDate?: string): string {
-  return `metrics:${tenantId}:${startDate || 'all'}:${endDate || 'all'}`
+// Order totals for one calendar day in one currency, in shop money
+interface DailyRow {
+  day: string
+  currency: string
+  orders: number
+  refundedOrders: number
+  revenue: number
+  refunds: number
+  netRevenue: number
 }
 
-function isCacheValid(timestamp: number, ttl: number = CACHE_TTL): boolean {
-  return Date.now() - timestamp < ttl
+type DayRange = { startDate: string; endDate: string }
+
+type CompareMode = 'previous_period' | 'previous_year'
+
+const COMPARE_MODES: CompareMode[] = ['previous_period', 'previous_year']
+
+// Headline numbers compared between periods, all in the reporting currency
+interface PeriodTotals {
+  totalCustomers: number
+  totalOrders: number
+  totalRevenue: number
+  netRevenue: number
+  totalRefunded: number
+  refundRate: number
+  averageOrderValue: number
+}
+
+// The same number of days just before the range, or the same calendar days a year earlier
+function comparisonRange(range: DayRange, compare: CompareMode): DayRange {
+  if (compare === 'previous_year') {
+    return {
+      startDate: shiftDayKey(range.startDate, { years: -1 }),
+      endDate: shiftDayKey(range.endDate, { years: -1 })
+    }
+  }
+  const length = daysBetween(range.startDate, range.endDate) + 1
+  return {
+    startDate: shiftDayKey(range.startDate, { days: -length }),
+    endDate: shiftDayKey(range.startDate, { days: -1 })
+  }
+}
+
+// Percentage change from the comparison value, or null when there is nothing to compare with
+function percentChange(current: number, previous: number) {
+  return previous !== 0 ? ((current - previous) / Math.abs(previous)) * 100 : null
+}
+
+// Rollup rows for the tenant, optionally limited to an inclusive range of days
+function statsFilter(tenantId: string, includeDeleted: boolean, range: DayRange | null) {
+  return Prisma.sql`s."tenantId" = ${tenantId}
+    ${includeDeleted ? Prisma.empty : Prisma.sql`AND s."deleted" = false`}
+    ${range ? Prisma.sql`AND s."day" BETWEEN ${range.startDate}::date AND ${range.endDate}::date` : Prisma.empty}`
+}
+
+// One row per day and currency: enough for every total and the daily series, and the
+// unit at which exchange rates apply
+function queryDailyRows(statsWhere: Prisma.Sql) {
+  return prisma.$queryRaw<DailyRow[]>`
+    SELECT to_char(s."day", 'YYYY-MM-DD') AS "day",
+      s."currency" AS "currency",
+      SUM(s."orders")::int AS "orders",
+      SUM(s."refundedOrders")::int AS "refundedOrders",
+      SUM(s."revenue")::float8 AS "revenue",
+      SUM(s."refunds")::float8 AS "refunds",
+      SUM(s."netRevenue")::float8 AS "netRevenue"
+    FROM "daily_tenant_stats" AS s
+    WHERE ${statsWhere}
+    GROUP BY s."day", s."currency"
+  `
+}
+
+// Customers who ordered in the window, by the day they signed up in Shopify
+function queryCustomersBySignupDay(statsWhere: Prisma.Sql, customerWhere: Prisma.Sql, timezone: string) {
+  return prisma.$queryRaw<Array<{ day: string | null; customers: number }>>`
+    SELECT to_char(((c."shopifyCreatedAt" AT TIME ZONE 'UTC') AT TIME ZONE ${timezone})::date, 'YYYY-MM-DD') AS "day",
+      COUNT(*)::int AS "customers"
+    FROM "customers" AS c
+    WHERE c."id" IN (
+      SELECT s."customerId" FROM "daily_customer_stats" AS s WHERE ${statsWhere}
+    )
+    ${customerWhere}
+    GROUP BY 1
+  `
+}
+
+// Totals and a trend series for the comparison range, converted into the same reporting
+// currency as the selected range. The series is laid over the selected range's days, so
+// day N of one period sits next to day N of the other, and then grouped like the
+// selected range's own series
+async function loadComparison(options: {
+  tenantId: string
+  timezone: string
+  includeDeleted: boolean
+  customerWhere: Prisma.Sql
+  currency: string
+  compare: CompareMode
+  range: DayRange
+  granularity: Granularity
+  current: PeriodTotals
+}) {
+  const { compare, range, current } = options
+  const period = comparisonRange(range, compare)
+  const statsWhere = statsFilter(options.tenantId, options.includeDeleted, period)
+
+  const [dailyRows, customerRows] = await Promise.all([
+    queryDailyRows(statsWhere),
+    queryCustomersBySignupDay(statsWhere, options.customerWhere, options.timezone)
+  ])
+
+  const dayDate = (day: string) => new Date(`${day}T00:00:00.000Z`)
+  const converter = await createCurrencyConverter(
+    options.currency,
+    dailyRows.map(row => ({ currency: row.currency, date: dayDate(row.day) }))
+  )
+
+  let totalRevenue = 0
+  let netRevenue = 0
+  let totalRefunded = 0
+  let refundedOrders = 0
+  let totalOrders = 0
+  let unconvertedOrders = 0
+  const dailyStats = new Map<string, {revenue: number, netRevenue: number, refunds: number, orders: number}>()
+
+  for (const row of dailyRows) {
+    const rate = converter.convert(1, row.currency, dayDate(row.day))
+    if (rate === null) unconvertedOrders += row.orders
+
+    const revenue = row.revenue * (rate ?? 0)
+    const net = row.netRevenue * (rate ?? 0)
+    const refunds = row.refunds * (rate ?? 0)
+
+    totalRevenue += revenue
+    netRevenue += net
+    totalRefunded += refunds
+    refundedOrders += row.refundedOrders
+    totalOrders += row.orders
+
+    const dayStats = dailyStats.get(row.day) || {revenue: 0, netRevenue: 0, refunds: 0, orders: 0}
+    dayStats.revenue += revenue
+    dayStats.netRevenue += net
+    dayStats.refunds += refunds
+    dayStats.orders += row.orders
+    dailyStats.set(row.day, dayStats)
+  }
+
+  const customersByDay = new Map<string | null, number>(customerRows.map(row => [row.day, row.customers]))
+
+  const totals: PeriodTotals = {
+    totalCustomers: customerRows.reduce((sum, row) => sum + row.customers, 0),
+    totalOrders,
+    totalRevenue,
+    netRevenue,
+    totalRefunded,
+    refundRate: totalOrders > 0 ? (refundedOrders / totalOrders) * 100 : 0,
+    averageOrderValue: totalOrders > 0 ? totalRevenue / totalOrders : 0
+  }
+
+  const deltas = Object.fromEntries(
+    (Object.keys(totals) as Array<keyof PeriodTotals>)
+      .map(key => [key, percentChange(current[key], totals[key])])
+  ) as Record<keyof PeriodTotals, number | null>
+
+  // Every day of the selected range, with the comparison day it lines up with, summed into
+  // the period of the selected day. comparisonDate is the first comparison day of the period
+  const buckets = new Map<string, {
+    comparisonDate: string, revenue: number, netRevenue: number, refunds: number, orders: number, customers: number
+  }>()
+  for (let offset = 0; offset <= daysBetween(range.startDate, range.endDate); offset++) {
+    const date = shiftDayKey(range.startDate, { days: offset })
+    const comparisonDate = compare === 'previous_year'
+      ? shiftDayKey(date, { years: -1 })
+      : shiftDayKey(period.startDate, { days: offset })
+    const data = dailyStats.get(comparisonDate) || {revenue: 0, netRevenue: 0, refunds: 0, orders: 0}
+    const key = startOfPeriod(date, options.granularity)
+    const bucket = buckets.get(key) ||
+      { comparisonDate, revenue: 0, netRevenue: 0, refunds: 0, orders: 0, customers: 0 }
+    bucket.revenue += data.revenue
+    bucket.netRevenue += data.netRevenue
+    bucket.refunds += data.refunds
+    bucket.orders += data.orders
+    bucket.customers += customersByDay.get(comparisonDate) || 0
+    buckets.set(key, bucket)
+  }
+
+  const revenueTrends = Array.from(buckets.entries()).map(([date, bucket]) => ({
+    date,
+    ...bucket,
+    averageOrderValue: bucket.orders > 0 ? bucket.revenue / bucket.orders : 0
+  }))
+
+  return {
+    mode: compare,
+    period,
+    conversion: {
+      missingRates: converter.missingRates(),
+      unconvertedOrders
+    },
+    ...totals,
+    deltas,
+    revenueTrends
+  }
 }
 
 export async function GET(request: NextRequest) {
   try {
-    // Optimize auth with caching
-    const authHeader = request.headers.get('authorization')
-    const authCookie = request.cookies.get('auth-token')?.value
-    const authKey = authHeader || authCookie || 'no-auth'
-    
-    let user
-    const cachedAuth = authCache.get(authKey)
-    if (cachedAuth && isCacheValid(cachedAuth.timestamp, AUTH_CACHE_TTL)) {
-      user = cachedAuth.user
-      console.log('Using cached authentication')
-    } else {
-      // Verify authentication using JWT
-      user = await getAuthenticatedUser(request)
-      if (user) {
-        authCache.set(authKey, { user, timestamp: Date.now() })
-      }
-    }
-    
+    // Verify authentication using JWT
+    const user = await getAuthenticatedUser(request)
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
@@ -55,20 +247,27 @@ export async function GET(request: NextRequest) {
     const tenantId = url.searchParams.get('tenantId')
     const startDate = url.searchParams.get('startDate')
     const endDate = url.searchParams.get('endDate')
+    // Rows deleted in Shopify are soft-deleted locally and left out unless asked for
+    const includeDeleted = url.searchParams.get('includeDeleted') === 'true'
+    // Optional period to compare the selected range against
+    const compare = url.searchParams.get('compare') as CompareMode | null
+    // Size of the buckets in the trend series; 'auto' picks one from the length of the range
+    const requestedGranularity = url.searchParams.get('granularity') || 'day'
 
     if (!tenantId) {
       return NextResponse.json({ error: 'Tenant ID is required' }, { status: 400 })
     }
 
-    // Set up date range for filtering
-    let dateFilter: any = {}
-    if (startDate && endDate) {
-      dateFilter = {
-        createdAt: {
-          gte: new Date(startDate),
-          lte: new Date(endDate + 'T23:59:59.999Z')
-        }
-      }
+    if (compare && !COMPARE_MODES.includes(compare)) {
+      return NextResponse.json({
+        error: `compare must be one of: ${COMPARE_MODES.join(', ')}`
+      }, { status: 400 })
+    }
+
+    if (requestedGranularity !== 'auto' && !GRANULARITIES.includes(requestedGranularity as Granularity)) {
+      return NextResponse.json({
+        error: `granularity must be one of: ${[...GRANULARITIES, 'auto'].join(', ')}`
+      }, { status: 400 })
     }
 
     // For data fetching, we need to get ALL historical data if no dates specified
@@ -87,270 +286,357 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Tenant not found or access denied' }, { status: 404 })
     }
 
-    // Check cache first with more granular keys
-    const cacheKey = getCacheKey(tenantId, startDate || '', endDate || '')
-    const cached = cache.get(cacheKey)
-    if (cached && isCacheValid(cached.timestamp)) {
-      console.log(`Returning cached metrics for: ${tenantId} (cached ${Math.round((Date.now() - cached.timestamp) / 1000)}s ago)`)
-      return NextResponse.json(cached.data)
-    }
+    // Dates are calendar days in the shop's timezone, not UTC or the server's zone
+    const timezone = getTenantTimezone(tenant)
+
+    // Keyed by everything that changes the response within a tenant
+    const cacheKey = `metrics:${startDate || 'all'}:${endDate || 'all'}:${timezone}` +
+      (includeDeleted ? ':withDeleted' : '') + (compare ? `:vs:${compare}` : '') + `:by:${requestedGranularity}`
+    const { value: result, status: cacheStatus } = await tenantCache.getOrLoad(tenantId, cacheKey, CACHE_TTL, async () => {
+      console.log(`Fetching metrics for tenant: ${tenantId}, dateRange: ${startDate} to ${endDate}`)
+
+      // Get current date for monthly calculations
+      const now = new Date()
+      const startOfThisMonth = startOfZonedMonth(now, timezone)
+      const monthStartDay = zonedDayKey(startOfThisMonth, timezone)
+      const today = zonedDayKey(now, timezone)
+
+      // Charts cover the selected range, or the last 30 days when totals span all history
+      const rangeStartDay = shouldFetchAllData ? shiftDayKey(today, { days: -30 }) : startDate!
+      const rangeEndDay = shouldFetchAllData ? today : endDate!
+      // Trend points are days, ISO weeks, months or quarters of the shop's calendar
+      const granularity = requestedGranularity === 'auto'
+        ? autoGranularity(rangeStartDay, rangeEndDay)
+        : requestedGranularity as Granularity
+
+      await ensureDailyRollups(tenantId)
+
+      const queryStartTime = Date.now()
 
-    console.log(`Fetching metrics for tenant: ${tenantId}, dateRange: ${startDate} to ${endDate}`)
-    
-    // Quick count check to avoid expensive queries for empty datasets
-    const quickOrderCount = await prisma.order.count({
-      where: { 
-        tenantId,
-        // Only apply date filter for count if specific dates provided
-        ...(shouldFetchAllData ? {} : dateFilter)
+      // Everything below reads the daily rollups kept current by sync, so the cost follows the
+      // number of days, products and customers in range rather than the number of orders.
+      // Rollup days are already calendar days in the shop's timezone
+      const range = shouldFetchAllData ? null : { startDate: startDate!, endDate: endDate! }
+      const statsWhere = statsFilter(tenantId, includeDeleted, range)
+      const customerWhere = includeDeleted ? Prisma.empty : Prisma.sql`AND c."deletedAt" IS NULL`
+      const productWhere = includeDeleted ? Prisma.empty : Prisma.sql`AND p."deletedAt" IS NULL`
+
+      const dailyRows = await queryDailyRows(statsWhere)
+
+      // All history has no earlier period to compare with, so comparisons need a range
+      const compareWith = (currency: string, current: PeriodTotals) =>
+        compare && range
+          ? loadComparison({ tenantId, timezone, includeDeleted, customerWhere, currency, compare, range, granularity, current })
+          : Promise.resolve(null)
+
+      if (dailyRows.length === 0) {
+        console.log('No orders found, returning empty metrics')
+        const emptyMetrics = {
+          currency: getReportingCurrency(tenant),
+          timezone,
+          granularity,
+          conversion: { missingRates: [], unconvertedOrders: 0 },
+          totalCustomers: 0,
+          totalOrders: 0,
+          totalRevenue: 0,
+          netRevenue: 0,
+          totalRefunded: 0,
+          refundRate: 0,
+          customersThisMonth: 0,
+          ordersThisMonth: 0,
+          revenueThisMonth: 0,
+          ordersByDate: [],
+          topCustomers: [],
+          topProducts: [],
+          revenueTrends: [],
+          comparison: await compareWith(getReportingCurrency(tenant), {
+            totalCustomers: 0,
+            totalOrders: 0,
+            totalRevenue: 0,
+            netRevenue: 0,
+            totalRefunded: 0,
+            refundRate: 0,
+            averageOrderValue: 0
+          })
+        }
+        return emptyMetrics
       }
-    })
 
-    if (quickOrderCount === 0) {
-      console.log('No orders found, returning empty metrics')
-      const emptyMetrics = {
-        totalCustomers: 0,
-        totalOrders: 0,
-        totalRevenue: 0,
-        customersThisMonth: 0,
-        ordersThisMonth: 0,
-        revenueThisMonth: 0,
-        ordersByDate: [],
-        topCustomers: [],
-        topProducts: [],
-        revenueTrends: []
+      // Every amount is converted into one reporting currency at the rate of the day the
+      // order was placed; orders with no known rate are counted but left out of revenue
+      const dayDate = (day: string) => new Date(`${day}T00:00:00.000Z`)
+      const converter = await createCurrencyConverter(
+        getReportingCurrency(tenant, dailyRows[0]?.currency),
+        dailyRows.map(row => ({ currency: row.currency, date: dayDate(row.day) }))
+      )
+
+      let totalRevenue = 0
+      let netRevenue = 0
+      let totalRefunded = 0
+      let refundedOrders = 0
+      let totalOrders = 0
+      let revenueThisMonth = 0
+      let ordersThisMonth = 0
+      let unconvertedOrders = 0
+      const trendStats = new Map<string, {revenue: number, netRevenue: number, refunds: number, orders: number}>()
+      // Known rates, handed back to the database so per-customer and per-product sums convert too
+      const rates = { currencies: [] as string[], days: [] as string[], values: [] as number[] }
+
+      for (const row of dailyRows) {
+        const rate = converter.convert(1, row.currency, dayDate(row.day))
+        if (rate === null) {
+          unconvertedOrders += row.orders
+        } else {
+          rates.currencies.push(row.currency)
+          rates.days.push(row.day)
+          rates.values.push(rate)
+        }
+
+        const revenue = row.revenue * (rate ?? 0)
+        const net = row.netRevenue * (rate ?? 0)
+        const refunds = row.refunds * (rate ?? 0)
+
+        totalRevenue += revenue
+        netRevenue += net
+        totalRefunded += refunds
+        refundedOrders += row.refundedOrders
+        totalOrders += row.orders
+
+        if (row.day >= monthStartDay) {
+          revenueThisMonth += revenue
+          ordersThisMonth += row.orders
+        }
+
+        // Trend stats, per period of the chosen granularity (only for data within range for charts)
+        if (row.day >= rangeStartDay && row.day <= rangeEndDay) {
+          const period = startOfPeriod(row.day, granularity)
+          const stats = trendStats.get(period) || {revenue: 0, netRevenue: 0, refunds: 0, orders: 0}
+          stats.revenue += revenue
+          stats.netRevenue += net
+          stats.refunds += refunds
+          stats.orders += row.orders
+          trendStats.set(period, stats)
+        }
+      }
+
+      const rateRows = Prisma.sql`rates AS (
+        SELECT * FROM unnest(${rates.currencies}::text[], ${rates.days}::date[], ${rates.values}::float8[])
+          AS r("currency", "day", "rate")
+      )`
+
+      const [customerRows, topCustomerRows, topProductRows] = await Promise.all([
+        queryCustomersBySignupDay(statsWhere, customerWhere, timezone),
+        prisma.$queryRaw<Array<{ customerId: string; totalSpent: number; ordersCount: number }>>`
+          WITH ${rateRows}
+          SELECT s."customerId" AS "customerId",
+            COALESCE(SUM(s."revenue" * r."rate"), 0)::float8 AS "totalSpent",
+            SUM(s."orders")::int AS "ordersCount"
+          FROM "daily_customer_stats" AS s
+          JOIN "customers" AS c ON c."id" = s."customerId"
+          LEFT JOIN rates AS r ON r."currency" = s."currency" AND r."day" = s."day"
+          WHERE ${statsWhere} ${customerWhere}
+          GROUP BY s."customerId"
+          ORDER BY "totalSpent" DESC
+          LIMIT 5
+        `,
+        // Products that only had refunds in the window are not top sellers
+        prisma.$queryRaw<Array<{ productId: string; revenue: number; units: number; refundedUnits: number }>>`
+          WITH ${rateRows}
+          SELECT s."productId" AS "productId",
+            COALESCE(SUM(s."revenue" * r."rate"), 0)::float8 AS "revenue",
+            SUM(s."units")::int AS "units",
+            SUM(s."refundedUnits")::int AS "refundedUnits"
+          FROM "daily_product_stats" AS s
+          JOIN "products" AS p ON p."id" = s."productId"
+          LEFT JOIN rates AS r ON r."currency" = s."currency" AND r."day" = s."day"
+          WHERE ${statsWhere} ${productWhere}
+          GROUP BY s."productId"
+          HAVING SUM(s."units") > 0
+          ORDER BY "revenue" DESC
+          LIMIT 10
+        `
+      ])
+
+      const totalCustomers = customerRows.reduce((sum, row) => sum + row.customers, 0)
+      const customersThisMonth = customerRows
+        .filter(row => row.day !== null && row.day >= monthStartDay)
+        .reduce((sum, row) => sum + row.customers, 0)
+      const customersByPeriod = new Map<string, number>()
+      for (const row of customerRows) {
+        if (row.day === null || row.day < rangeStartDay || row.day > rangeEndDay) continue
+        const period = startOfPeriod(row.day, granularity)
+        customersByPeriod.set(period, (customersByPeriod.get(period) || 0) + row.customers)
       }
-      // Cache empty results too
-      cache.set(cacheKey, { data: emptyMetrics, timestamp: Date.now() })
-      return NextResponse.json(emptyMetrics)
-    }
 
-    console.log(`Fetching metrics for tenant: ${tenantId}, dateRange: ${startDate} to ${endDate}`)
-    
-    // Get current date for monthly calculations
-    const now = new Date()
-    const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1)
-    const startOfThisMonth = startOfMonth.toISOString()
-
-    // Set default date range if not provided (last 30 days for display, but fetch ALL data)
-    const defaultStartDate = new Date()
-    defaultStartDate.setDate(defaultStartDate.getDate() - 30)
-    
-    const rangeStart = startDate ? new Date(startDate) : defaultStartDate
-    const rangeEnd = endDate ? new Date(endDate + 'T23:59:59.999Z') : new Date()
-
-    const queryStartTime = Date.now()
-    console.log('Starting optimized single-query approach...')
-
-    // ULTRA-AGGRESSIVE OPTIMIZATION: Single query with everything we need
-    // For historical data completeness, fetch ALL data if no specific date range provided
-    const ordersWithCustomersAndItems = await prisma.order.findMany({
-      where: { 
-        tenantId,
-        // Only apply date filter if specific dates are provided for filtering
-        ...(shouldFetchAllData ? {} : dateFilter)
-      },
-      select: {
-        id: true,
-        totalPrice: true,
-        createdAt: true,
-        customerId: true,
-        customer: {
+      const topProductIds = topProductRows.map(row => row.productId)
+
+      // Details only for the handful of rows that made the top lists. Every variant of the
+      // top products is included, so SKUs that did not sell still show their stock
+      const [topCustomerDetails, topProductDetails, topProductVariants, variantSalesRows] = await Promise.all([
+        prisma.customer.findMany({
+          where: { id: { in: topCustomerRows.map(row => row.customerId) } },
+          select: { id: true, firstName: true, lastName: true, email: true }
+        }),
+        prisma.product.findMany({
+          where: { id: { in: topProductIds } },
+          select: { id: true, title: true }
+        }),
+        prisma.productVariant.findMany({
+          where: {
+            productId: { in: topProductIds },
+            ...(includeDeleted ? {} : { product: { deletedAt: null } })
+          },
           select: {
             id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
-            createdAt: true
-          }
-        },
-        orderItems: {
-          select: {
             productId: true,
+            sku: true,
+            title: true,
             price: true,
-            quantity: true,
-            product: {
-              select: {
-                id: true,
-                title: true
-              }
-            }
-          }
-        }
-      },
-      orderBy: {
-        createdAt: 'desc'
-      }
-    })
+            inventoryQuantity: true
+          },
+          orderBy: { position: 'asc' }
+        }),
+        topProductIds.length > 0
+          ? prisma.$queryRaw<Array<{ variantId: string; revenue: number; units: number }>>`
+              WITH ${rateRows}
+              SELECT s."variantId" AS "variantId",
+                COALESCE(SUM(s."revenue" * r."rate"), 0)::float8 AS "revenue",
+                SUM(s."units")::int AS "units"
+              FROM "daily_product_stats" AS s
+              JOIN "products" AS p ON p."id" = s."productId"
+              LEFT JOIN rates AS r ON r."currency" = s."currency" AND r."day" = s."day"
+              WHERE ${statsWhere} ${productWhere}
+                AND s."productId" = ANY(${topProductIds}::text[])
+                AND s."variantId" IS NOT NULL
+              GROUP BY s."variantId"
+            `
+          : Promise.resolve([])
+      ])
 
-    const queryEndTime = Date.now()
-    console.log(`Single comprehensive query completed in ${queryEndTime - queryStartTime}ms`)
-
-    // Extract and process data from the single comprehensive query with optimized algorithms
-    const ordersData = ordersWithCustomersAndItems
-    const uniqueCustomers = new Map()
-    const productRevenueMap = new Map<string, {revenue: number, units: number, title: string}>()
-    const dailyStats = new Map<string, {revenue: number, orders: number}>()
-    const customerSpending = new Map<string, number>()
-    
-    // Process all data in a single loop for maximum efficiency
-    const processingStartTime = Date.now()
-    
-    // Separate totals (all data) from range-specific data
-    let totalRevenue = 0
-    let totalOrders = 0
-    let rangeRevenue = 0
-    let rangeOrders = 0
-    let revenueThisMonth = 0
-    let ordersThisMonth = 0
-    
-    ordersWithCustomersAndItems.forEach((order: any) => {
-      const orderRevenue = Number(order.totalPrice || 0)
-      const orderDate = new Date(order.createdAt)
-      const isThisMonth = orderDate >= new Date(startOfThisMonth)
-      const isInRange = orderDate >= rangeStart && orderDate <= rangeEnd
-      const dayKey = orderDate.toISOString().split('T')[0]
-      
-      // Aggregate totals (all historical data)
-      totalRevenue += orderRevenue
-      totalOrders++
-      
-      // Range-specific aggregates (for trends and charts)
-      if (isInRange) {
-        rangeRevenue += orderRevenue
-        rangeOrders++
-      }
-      
-      if (isThisMonth) {
-        revenueThisMonth += orderRevenue
-        ordersThisMonth++
-      }
-      
-      // Daily stats (only for data within range for charts)
-      if (isInRange) {
-        const dayStats = dailyStats.get(dayKey) || {revenue: 0, orders: 0}
-        dayStats.revenue += orderRevenue
-        dayStats.orders++
-        dailyStats.set(dayKey, dayStats)
-      }
-      
-      // Collect unique customers and their spending
-      if (order.customer && order.customerId) {
-        uniqueCustomers.set(order.customerId, order.customer)
-        const currentSpending = customerSpending.get(order.customerId) || 0
-        customerSpending.set(order.customerId, currentSpending + orderRevenue)
-      }
-      
-      // Process order items for product metrics
-      order.orderItems?.forEach((item: any) => {
-        if (item.productId && item.product) {
-          const itemRevenue = Number(item.price || 0)
-          const itemQuantity = Number(item.quantity || 0)
-          const existing = productRevenueMap.get(item.productId) || {revenue: 0, units: 0, title: item.product.title || 'Unknown'}
-          productRevenueMap.set(item.productId, {
-            revenue: existing.revenue + itemRevenue,
-            units: existing.units + Number(item.quantity || 0),
-            title: existing.title
-          })
-        }
-      })
-    })
-    
-    const processingEndTime = Date.now()
-    console.log(`Data processing completed in ${processingEndTime - processingStartTime}ms`)
-    
-    const customersData = Array.from(uniqueCustomers.values())
-
-    // Calculate remaining metrics from processed data
-    const totalCustomers = customersData.length
-    const customersThisMonth = customersData.filter((c: any) => 
-      new Date(c.createdAt) >= new Date(startOfThisMonth)
-    ).length
-
-    // Convert daily stats to ordersByDate format (filtered to range)
-    const ordersByDate = Array.from(dailyStats.entries())
-      .map(([date, data]) => ({
-        date,
-        orders: data.orders,
-        revenue: data.revenue
-      }))
-      .sort((a, b) => a.date.localeCompare(b.date))
-
-    // Process revenue trends using our pre-calculated daily stats (already filtered to range)
-    const revenueTrends = Array.from(dailyStats.entries())
-      .map(([date, data]) => {
-        // Count customers who joined on this date
-        const customersOnDate = customersData.filter((customer: any) => {
-          const customerDate = new Date(customer.createdAt)
-          return customerDate.toISOString().split('T')[0] === date
-        }).length
-        
-        return {
+      const queryEndTime = Date.now()
+      console.log(`Rollup queries completed in ${queryEndTime - queryStartTime}ms`)
+
+      const variantSalesMap = new Map<string, {revenue: number, units: number}>(
+        variantSalesRows.map((row: any) => [row.variantId, row])
+      )
+
+      // Convert trend stats to ordersByDate format (filtered to range); each date is the first
+      // day of its period
+      const ordersByDate = Array.from(trendStats.entries())
+        .map(([date, data]) => ({
+          date,
+          orders: data.orders,
+          revenue: data.revenue
+        }))
+        .sort((a, b) => a.date.localeCompare(b.date))
+
+      const revenueTrends = Array.from(trendStats.entries())
+        .map(([date, data]) => ({
           date,
           revenue: data.revenue,
+          netRevenue: data.netRevenue,
+          refunds: data.refunds,
           orders: data.orders,
-          customers: customersOnDate,
+          // Customers who joined in this period
+          customers: customersByPeriod.get(date) || 0,
           averageOrderValue: data.orders > 0 ? data.revenue / data.orders : 0
-        }
-      })
-      .sort((a, b) => a.date.localeCompare(b.date))
-
-    // Get top customers using pre-calculated spending
-    const topCustomers = Array.from(customerSpending.entries())
-      .map(([customerId, totalSpent]) => {
-        const customer = uniqueCustomers.get(customerId)
-        if (!customer) return null
-        
-        // Count orders for this customer
-        const ordersCount = ordersData.filter((o: any) => o.customerId === customerId).length
-        
+        }))
+        .sort((a, b) => a.date.localeCompare(b.date))
+
+      const topCustomers = topCustomerRows
+        .map(row => {
+          const customer = topCustomerDetails.find((c: any) => c.id === row.customerId)
+          if (!customer) return null
+
+          return {
+            id: customer.id,
+            name: `${customer.firstName || ''} ${customer.lastName || ''}`.trim() || 'Unknown',
+            email: customer.email || 'No email',
+            totalSpent: Number(row.totalSpent),
+            ordersCount: Number(row.ordersCount)
+          }
+        })
+        .filter((customer): customer is NonNullable<typeof customer> => customer !== null)
+
+      const topProducts = topProductRows.map(row => {
+        const variants = topProductVariants
+          .filter((variant: any) => variant.productId === row.productId)
+          .map((variant: any) => {
+            const sales = variantSalesMap.get(variant.id) || {revenue: 0, units: 0}
+            return {
+              id: variant.id,
+              sku: variant.sku,
+              title: variant.title,
+              price: Number(variant.price || 0),
+              unitsSold: sales.units,
+              revenue: sales.revenue,
+              stockOnHand: variant.inventoryQuantity
+            }
+          })
+
         return {
-          id: customer.id,
-          name: `${customer.firstName || ''} ${customer.lastName || ''}`.trim() || 'Unknown',
-          email: customer.email || 'No email',
-          totalSpent: Number(totalSpent),
-          ordersCount: Number(ordersCount)
+          id: row.productId,
+          title: topProductDetails.find((p: any) => p.id === row.productId)?.title || 'Unknown',
+          revenue: row.revenue,
+          unitsSold: row.units,
+          refundedUnits: row.refundedUnits,
+          averagePrice: row.units > 0 ? row.revenue / row.units : 0,
+          stockOnHand: variants.reduce((sum: number, variant: any) => sum + variant.stockOnHand, 0),
+          variants
         }
       })
-      .filter((customer): customer is NonNullable<typeof customer> => customer !== null)
-      .sort((a, b) => b.totalSpent - a.totalSpent) // Sort by spending descending
-      .slice(0, 5)
-
-    // Process top products from the single query data
-    const topProducts = Array.from(productRevenueMap.entries())
-      .map(([productId, data]) => ({
-        id: productId,
-        title: data.title,
-        revenue: data.revenue,
-        unitsSold: data.units,
-        averagePrice: data.units > 0 ? data.revenue / data.units : 0
-      }))
-      .sort((a, b) => b.revenue - a.revenue)
-      .slice(0, 10)
-
-    // Prepare response data
-    const metrics = {
-      totalCustomers: Number(totalCustomers),
-      totalOrders: Number(totalOrders),
-      totalRevenue: totalRevenue,
-      customersThisMonth: Number(customersThisMonth),
-      ordersThisMonth: Number(ordersThisMonth),
-      revenueThisMonth: revenueThisMonth,
-      ordersByDate: ordersByDate,
-      topCustomers,
-      topProducts,
-      revenueTrends: revenueTrends
-    }
 
-    console.log('Metrics calculated for tenant:', tenantId, 'with optimized single query approach')
+      const refundRate = totalOrders > 0 ? (refundedOrders / totalOrders) * 100 : 0
+      const comparison = await compareWith(converter.currency, {
+        totalCustomers,
+        totalOrders,
+        totalRevenue,
+        netRevenue,
+        totalRefunded,
+        refundRate,
+        averageOrderValue: totalOrders > 0 ? totalRevenue / totalOrders : 0
+      })
 
-    // Cache the result with enhanced TTL
-    cache.set(cacheKey, { data: metrics, timestamp: Date.now() })
+      // Prepare response data
+      const metrics = {
+        currency: converter.currency,
+        timezone,
+        granularity,
+        conversion: {
+          missingRates: converter.missingRates(),
+          unconvertedOrders
+        },
+        totalCustomers: Number(totalCustomers),
+        totalOrders: Number(totalOrders),
+        totalRevenue: totalRevenue,
+        netRevenue: netRevenue,
+        totalRefunded: totalRefunded,
+        // Share of orders with at least one refund, as a percentage
+        refundRate,
+        customersThisMonth: Number(customersThisMonth),
+        ordersThisMonth: Number(ordersThisMonth),
+        revenueThisMonth: revenueThisMonth,
+        ordersByDate: ordersByDate,
+        topCustomers,
+        topProducts,
+        revenueTrends: revenueTrends,
+        comparison
+      }
+
+      console.log('Metrics calculated for tenant:', tenantId, 'from daily rollups')
+
+      const totalTime = Date.now() - queryStartTime
+      console.log(`Total metrics calculation completed in ${totalTime}ms`)
 
-    const totalTime = Date.now() - queryStartTime
-    console.log(`Total metrics calculation completed in ${totalTime}ms`)
+      return metrics
+    })
 
-    return NextResponse.json(metrics)
+    return NextResponse.json(result, {
+      headers: {
+        'X-Cache': cacheStatus,
+        'X-Cache-Backend': tenantCache.backendName
+      }
+    })
 
   } catch (error) {
     console.error('Error fetching dashboard metrics:', error)
@@ -133,9 +133,16 @@ async function getSyncMetrics(tenantId: string, startDate: Date) {
 async function getDataHealthMetrics(tenantId: string) {
   // Get record counts
   const [customerCount, orderCount, productCount] = await Promise.all([
-    prisma.customer.count({ where: { tenantId } }),
-    prisma.order.count({ where: { tenantId } }),
-    prisma.product.count({ where: { tenantId } })
+    prisma.customer.count({ where: { tenantId, deletedAt: null } }),
+    prisma.order.count({ where: { tenantId, deletedAt: null } }),
+    prisma.product.count({ where: { tenantId, deletedAt: null } })
+  ])
+
+  // Rows soft-deleted because they no longer exist in Shopify
+  const [deletedCustomers, deletedOrders, deletedProducts] = await Promise.all([
+    prisma.customer.count({ where: { tenantId, deletedAt: { not: null } } }),
+    prisma.order.count({ where: { tenantId, deletedAt: { not: null } } }),
+    prisma.product.count({ where: { tenantId, deletedAt: { not: null } } })
   ])
 
   // Get recent activity
@@ -172,6 +179,11 @@ async function getDataHealthMetrics(tenantId: string) {
       orders: orderCount,
       products: productCount
     },
+    deletedCounts: {
+      customers: deletedCustomers,
+      orders: deletedOrders,
+      products: deletedProducts
+    },
     recentActivity: {
       customers: recentCustomers,
       orders: recentOrders,
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getAuthenticatedUser } from '@/lib/auth-middleware'
 import { syncTenantById } from '@/lib/scheduler'
 import { prisma } from '@/lib/db'
+import { getBackfillProgress } from '@/services/shopify-bulk'
 
 // POST /api/sync - Manual sync trigger
 export async function POST(request: NextRequest) {
@@ -23,8 +24,8 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { tenantId, types, force, historical } = body
-    console.log('[SYNC API] Request body:', { tenantId, types, force, historical })
+    const { tenantId, types, force, historical, api } = body
+    console.log('[SYNC API] Request body:', { tenantId, types, force, historical, api })
 
     if (!tenantId) {
       console.log('[SYNC API] Missing tenant ID')
@@ -62,10 +63,14 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
-    // If historical sync is requested, force a full sync
+    // Historical syncs run as a bulk-operation backfill that later calls keep advancing
     const syncOptions = {
       types: types || ['orders', 'customers', 'products'],
-      force: force || historical || false
+      force: force || historical || false,
+      backfill: !!historical,
+      // Stop paging well before the 4 minute guard below so progress is saved
+      timeBudget: 200000,
+      api: api === 'graphql' || api === 'rest' ? api as 'rest' | 'graphql' : undefined
     }
 
     console.log('[SYNC API] Starting sync with options:', syncOptions)
@@ -125,6 +130,8 @@ export async function POST(request: NextRequest) {
       totalDuration: Array.isArray(results) ? results.reduce((sum: number, r: any) => sum + r.duration, 0) : 0,
       successful: Array.isArray(results) ? results.filter((r: any) => r.success).length : 0,
       failed: Array.isArray(results) ? results.filter((r: any) => !r.success).length : 0,
+      complete: Array.isArray(results) ? results.every((r: any) => r.complete) : false,
+      relinked: Array.isArray(results) ? results.reduce((sum: number, r: any) => sum + (r.relinked || 0), 0) : 0,
       syncType: historical ? 'historical' : force ? 'force' : 'incremental'
     })
 
@@ -184,34 +191,54 @@ export async function GET(request: NextRequest) {
       take: 50
     })
 
+    // Resumable progress for runs that stopped before their last page
+    const checkpoints = await prisma.syncCheckpoint.findMany({
+      where: {
+        tenantId
+      }
+    })
+
     // Group by sync type and get latest status
     const syncStatus: Record<string, any> = {}
-    const syncTypes = ['orders', 'customers', 'products', 'analytics']
+    const syncTypes = ['orders', 'customers', 'products', 'inventory', 'analytics', 'deletions']
 
     for (const type of syncTypes) {
       const logs = syncLogs.filter(log => log.syncType === type)
       const lastLog = logs[0]
+      const checkpoint = checkpoints.find(c => c.resourceType === type)
       
       syncStatus[type] = {
         lastSync: lastLog?.createdAt || null,
         success: lastLog?.success || false,
+        complete: lastLog?.complete ?? true,
         recordsProcessed: lastLog?.recordsProcessed || 0,
         duration: lastLog?.duration || 0,
         error: lastLog?.error || null,
         totalSyncs: logs.length,
-        successRate: logs.length > 0 ? (logs.filter(l => l.success).length / logs.length * 100).toFixed(1) : '0'
+        successRate: logs.length > 0 ? (logs.filter(l => l.success).length / logs.length * 100).toFixed(1) : '0',
+        checkpoint: checkpoint ? {
+          status: checkpoint.status,
+          resumable: checkpoint.status === 'in_progress' && !!checkpoint.cursor,
+          recordsProcessed: checkpoint.recordsProcessed,
+          highWaterUpdatedAt: checkpoint.highWaterUpdatedAt,
+          updatedAt: checkpoint.updatedAt
+        } : null
       }
     }
 
+    const backfill = await getBackfillProgress(tenantId)
+
     return NextResponse.json({
       tenantId,
       tenantName: tenant.name,
+      backfill,
       lastActivity: syncLogs[0]?.createdAt || tenant.createdAt,
       syncStatus,
       recentLogs: syncLogs.slice(0, 10).map(log => ({
         id: log.id,
         type: log.syncType,
         success: log.success,
+        complete: log.complete,
         recordsProcessed: log.recordsProcessed,
         duration: log.duration,
         createdAt: log.createdAt,
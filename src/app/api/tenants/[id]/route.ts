@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { getAuthenticatedUser } from '@/lib/auth-middleware'
+import { webhookManager } from '@/lib/webhook-manager'
+import { z } from 'zod'
+import { isValidTimezone } from '@/lib/timezone'
+import { rebuildDailyRollups } from '@/lib/analytics-rollups'
+import { tenantCache } from '@/lib/cache'
+
+const updateTenantSchema = z.object({
+  name: z.string().min(1).optional(),
+  lowStockThresholdDays: z.number().int().min(1).max(365).optional(),
+  shippingCostPerFulfillment: z.number().min(0).nullable().optional(),
+  reportingCurrency: z.string().length(3).transform(code => code.toUpperCase()).nullable().optional(),
+  timezone: z.string().refine(isValidTimezone, 'Unknown IANA timezone').optional(),
+})
+
+// GET /api/tenants/[id] - Tenant details including live webhook subscriptions
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const tenant = await prisma.tenant.findFirst({
+      where: {
+        id,
+        userId: user.id
+      },
+      select: {
+        id: true,
+        name: true,
+        shopifyDomain: true,
+        shopifyAccessToken: true,
+        isActive: true,
+        lowStockThresholdDays: true,
+        shippingCostPerFulfillment: true,
+        currency: true,
+        reportingCurrency: true,
+        timezone: true,
+        createdAt: true,
+        updatedAt: true,
+      }
+    })
+
+    if (!tenant) {
+      return NextResponse.json({ error: 'Tenant not found' }, { status: 404 })
+    }
+
+    const { shopifyAccessToken, ...details } = tenant
+    const webhooks = shopifyAccessToken
+      ? await webhookManager.getWebhookStatus(tenant.id)
+      : null
+
+    return NextResponse.json({
+      ...details,
+      hasAccessToken: !!shopifyAccessToken,
+      webhooks
+    })
+  } catch (error) {
+    console.error('Error fetching tenant:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// PATCH /api/tenants/[id] - Update tenant settings
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const validatedData = updateTenantSchema.parse(body)
+
+    const tenant = await prisma.tenant.findFirst({
+      where: {
+        id,
+        userId: user.id
+      }
+    })
+
+    if (!tenant) {
+      return NextResponse.json({ error: 'Tenant not found' }, { status: 404 })
+    }
+
+    const updated = await prisma.tenant.update({
+      where: { id },
+      data: validatedData,
+      select: {
+        id: true,
+        name: true,
+        shopifyDomain: true,
+        isActive: true,
+        lowStockThresholdDays: true,
+        shippingCostPerFulfillment: true,
+        currency: true,
+        reportingCurrency: true,
+        timezone: true,
+        updatedAt: true,
+      }
+    })
+
+    // Rollup days follow the tenant's timezone
+    if (validatedData.timezone && validatedData.timezone !== tenant.timezone) {
+      await rebuildDailyRollups(id)
+    }
+
+    // Cached dashboards were built with the old currency, timezone and thresholds
+    await tenantCache.invalidateTenant(id)
+
+    return NextResponse.json(updated)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.issues || error.message },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating tenant:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { getAuthenticatedUser } from '@/lib/auth-middleware'
+import { webhookManager } from '@/lib/webhook-manager'
+
+// POST /api/tenants/[id]/webhooks - Reconcile webhook subscriptions on demand
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+
+    const tenant = await prisma.tenant.findFirst({
+      where: {
+        id,
+        userId: user.id
+      }
+    })
+
+    if (!tenant) {
+      return NextResponse.json({ error: 'Tenant not found' }, { status: 404 })
+    }
+
+    const result = await webhookManager.registerWebhooksForTenant(tenant.id)
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error('Error reconciling webhooks:', error)
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    }, { status: 500 })
+  }
+}
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
 import { z } from 'zod'
 import { getAuthenticatedUser } from '@/lib/auth-middleware'
+import { webhookManager } from '@/lib/webhook-manager'
+import { ShopifyService } from '@/services/shopify'
 
 const createTenantSchema = z.object({
   name: z.string().min(1),
@@ -9,8 +11,21 @@ const createTenantSchema = z.object({
   shopifyAccessToken: z.string().optional(),
   apiKey: z.string().optional(),
   apiSecret: z.string().optional(),
+  webhookSecret: z.string().optional(),
+  reportingCurrency: z.string().length(3).transform(code => code.toUpperCase()).optional(),
 })
 
+// Fields safe to send back; the access token and API and webhook secrets never leave the server
+const tenantSelect = {
+  id: true,
+  name: true,
+  shopifyDomain: true,
+  isActive: true,
+  timezone: true,
+  createdAt: true,
+  updatedAt: true,
+}
+
 export async function GET(request: NextRequest) {
   try {
     const user = await getAuthenticatedUser(request)
@@ -25,14 +40,7 @@ export async function GET(request: NextRequest) {
       where: {
         userId: user.id // Use user.id instead of user.$id
       },
-      select: {
-        id: true,
-        name: true,
-        shopifyDomain: true,
-        isActive: true,
-        createdAt: true,
-        updatedAt: true,
-      }
+      select: tenantSelect
     })
 
     return NextResponse.json(tenants)
@@ -74,7 +82,32 @@ export async function POST(request: NextRequest) {
       }
     })
 
-    return NextResponse.json(tenant, { status: 201 })
+    // Webhook registration is best effort - it can be retried from the tenant API
+    if (tenant.shopifyAccessToken) {
+      try {
+        await webhookManager.registerWebhooksForTenant(tenant.id)
+      } catch (webhookError) {
+        console.error('Error registering webhooks for new tenant:', webhookError)
+      }
+
+      // Shop currency is refreshed again on forced syncs, so a failure here is fine
+      try {
+        await new ShopifyService({
+          domain: tenant.shopifyDomain,
+          accessToken: tenant.shopifyAccessToken
+        }, tenant.id).syncShopDetails()
+      } catch (shopError) {
+        console.error('Error fetching shop details for new tenant:', shopError)
+      }
+    }
+
+    // Read back after the shop sync, which may have filled in the timezone
+    const created = await prisma.tenant.findUnique({
+      where: { id: tenant.id },
+      select: tenantSelect
+    })
+
+    return NextResponse.json(created, { status: 201 })
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json(
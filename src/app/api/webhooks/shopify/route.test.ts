@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+
+const { applyWebhook } = vi.hoisted(() => ({ applyWebhook: vi.fn() }))
+
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    tenant: { findUnique: vi.fn() }
+  }
+}))
+vi.mock('@/lib/cache', () => ({
+  tenantCache: { invalidateTenant: vi.fn() }
+}))
+vi.mock('@/services/shopify', () => ({
+  ShopifyService: vi.fn(function () {
+    return { applyWebhook }
+  })
+}))
+
+import { prisma } from '@/lib/db'
+import { tenantCache } from '@/lib/cache'
+import { POST } from '@/app/api/webhooks/shopify/route'
+import { ORDER_WEBHOOK_BODY, ORDER_WEBHOOK_HMAC, WEBHOOK_SECRET } from '@/lib/__fixtures__/shopify-webhook'
+
+const SHOP = 'test-shop.myshopify.com'
+
+const tenant = {
+  id: 'tenant-1',
+  shopifyDomain: SHOP,
+  shopifyAccessToken: 'test-token',
+  isActive: true,
+  apiKey: null,
+  apiSecret: null,
+  webhookSecret: WEBHOOK_SECRET
+}
+
+function webhookRequest(body: string, hmac: string | null, topic = 'orders/create') {
+  const headers: Record<string, string> = {
+    'content-type': 'application/json',
+    'x-shopify-topic': topic,
+    'x-shopify-shop-domain': SHOP,
+    'x-shopify-webhook-id': 'b54557e4-bdd9-4b37-8a5f-bf7d70bcd043'
+  }
+  if (hmac !== null) {
+    headers['x-shopify-hmac-sha256'] = hmac
+  }
+  return new NextRequest('http://localhost/api/webhooks/shopify', { method: 'POST', body, headers })
+}
+
+describe('POST /api/webhooks/shopify', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.mocked(prisma.tenant.findUnique).mockResolvedValue(tenant as never)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.clearAllMocks()
+  })
+
+  it('applies a correctly signed delivery', async () => {
+    const response = await POST(webhookRequest(ORDER_WEBHOOK_BODY, ORDER_WEBHOOK_HMAC))
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ success: true, topic: 'orders/create' })
+    expect(applyWebhook).toHaveBeenCalledWith('orders/create', JSON.parse(ORDER_WEBHOOK_BODY))
+    expect(tenantCache.invalidateTenant).toHaveBeenCalledWith('tenant-1')
+  })
+
+  it('rejects a tampered body', async () => {
+    const tampered = ORDER_WEBHOOK_BODY.replace('598.94', '0.01')
+    const response = await POST(webhookRequest(tampered, ORDER_WEBHOOK_HMAC))
+
+    expect(response.status).toBe(401)
+    expect(applyWebhook).not.toHaveBeenCalled()
+  })
+
+  it('rejects a delivery signed with another secret', async () => {
+    vi.mocked(prisma.tenant.findUnique).mockResolvedValue({ ...tenant, webhookSecret: 'rotated-secret' } as never)
+    const response = await POST(webhookRequest(ORDER_WEBHOOK_BODY, ORDER_WEBHOOK_HMAC))
+
+    expect(response.status).toBe(401)
+    expect(applyWebhook).not.toHaveBeenCalled()
+  })
+
+  it('rejects an unsigned delivery', async () => {
+    const response = await POST(webhookRequest(ORDER_WEBHOOK_BODY, null))
+
+    expect(response.status).toBe(401)
+    expect(applyWebhook).not.toHaveBeenCalled()
+  })
+
+  it('verifies before acknowledging unsupported topics', async () => {
+    const signed = await POST(webhookRequest(ORDER_WEBHOOK_BODY, ORDER_WEBHOOK_HMAC, 'app/uninstalled'))
+    expect(signed.status).toBe(200)
+    expect(await signed.json()).toEqual({ success: true, ignored: true })
+
+    const unsigned = await POST(webhookRequest(ORDER_WEBHOOK_BODY, 'forged', 'app/uninstalled'))
+    expect(unsigned.status).toBe(401)
+    expect(applyWebhook).not.toHaveBeenCalled()
+  })
+
+  it('returns 404 for shops without an active tenant', async () => {
+    vi.mocked(prisma.tenant.findUnique).mockResolvedValue(null as never)
+    const response = await POST(webhookRequest(ORDER_WEBHOOK_BODY, ORDER_WEBHOOK_HMAC))
+
+    expect(response.status).toBe(404)
+  })
+})
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { tenantCache } from '@/lib/cache'
+import { isSupportedWebhookTopic, verifyShopifyWebhook } from '@/lib/shopify-webhooks'
+import { ShopifyService } from '@/services/shopify'
+
+// POST /api/webhooks/shopify - Shopify webhook ingestion
+export async function POST(request: NextRequest) {
+  const topic = request.headers.get('x-shopify-topic')
+  const shopDomain = request.headers.get('x-shopify-shop-domain')
+  const hmac = request.headers.get('x-shopify-hmac-sha256')
+
+  try {
+    // HMAC is computed over the exact bytes Shopify sent, so read the raw body first
+    const rawBody = await request.text()
+
+    console.log('[WEBHOOK] Received:', {
+      topic,
+      shopDomain,
+      webhookId: request.headers.get('x-shopify-webhook-id')
+    })
+
+    if (!topic || !shopDomain) {
+      return NextResponse.json({ error: 'Missing Shopify webhook headers' }, { status: 400 })
+    }
+
+    const tenant = await prisma.tenant.findUnique({
+      where: {
+        shopifyDomain: shopDomain
+      }
+    })
+
+    if (!tenant || !tenant.isActive) {
+      console.log('[WEBHOOK] No active tenant for shop:', shopDomain)
+      return NextResponse.json({ error: 'Unknown shop' }, { status: 404 })
+    }
+
+    const secret = tenant.webhookSecret || tenant.apiSecret
+    if (!secret) {
+      console.error('[WEBHOOK] Tenant has no webhook secret configured:', tenant.id)
+      return NextResponse.json({ error: 'Webhook secret not configured' }, { status: 401 })
+    }
+
+    if (!verifyShopifyWebhook(rawBody, hmac, secret)) {
+      console.warn('[WEBHOOK] HMAC verification failed for shop:', shopDomain)
+      return NextResponse.json({ error: 'Invalid webhook signature' }, { status: 401 })
+    }
+
+    // Acknowledge topics we do not handle so Shopify does not keep retrying them
+    if (!isSupportedWebhookTopic(topic)) {
+      console.log('[WEBHOOK] Ignoring unsupported topic:', topic)
+      return NextResponse.json({ success: true, ignored: true })
+    }
+
+    const shopifyService = new ShopifyService({
+      domain: tenant.shopifyDomain,
+      accessToken: tenant.shopifyAccessToken || '',
+      apiKey: tenant.apiKey || undefined,
+      apiSecret: tenant.apiSecret || undefined
+    }, tenant.id)
+
+    await shopifyService.applyWebhook(topic, JSON.parse(rawBody))
+    await tenantCache.invalidateTenant(tenant.id)
+
+    return NextResponse.json({ success: true, topic })
+
+  } catch (error) {
+    console.error('[WEBHOOK ERROR] Failed to process webhook:', {
+      topic,
+      shopDomain,
+      error: error instanceof Error ? error.message : error
+    })
+
+    // A 5xx makes Shopify retry delivery with backoff
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error'
+    }, { status: 500 })
+  }
+}
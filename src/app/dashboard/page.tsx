@@ -11,7 +11,12 @@ import { OrdersByDateChart } from "@/components/dashboard/orders-chart";
 import { TopCustomers } from "@/components/dashboard/top-customers";
 import { TopProducts } from "@/components/dashboard/top-products";
 import { RevenueTrends } from "@/components/dashboard/revenue-trends";
-import { DateRangeFilter } from "@/components/dashboard/date-range-filter";
+import { DiscountCodes } from "@/components/dashboard/discount-codes";
+import { InventoryAlerts } from "@/components/dashboard/inventory-alerts";
+import { CohortRetention } from "@/components/dashboard/cohort-retention";
+import { formatCurrency } from "@/lib/utils";
+import { Granularity, shiftDayKey, zonedDayKey } from "@/lib/timezone";
+import { CompareMode, DateRangeFilter } from "@/components/dashboard/date-range-filter";
 import { SyncManager } from "@/components/dashboard/sync-manager";
 import { cn } from "@/lib/utils";
 
@@ -29,12 +34,43 @@ interface Tenant {
   name: string;
   shopifyDomain: string;
   isActive: boolean;
+  timezone: string | null;
 }
 
+interface TrendPoint {
+  date: string;
+  revenue: number;
+  netRevenue: number;
+  refunds: number;
+  orders: number;
+  customers: number;
+  averageOrderValue: number;
+}
+
+// Headline numbers that are compared between periods
+type ComparedTotal =
+  | "totalCustomers"
+  | "totalOrders"
+  | "totalRevenue"
+  | "netRevenue"
+  | "totalRefunded"
+  | "refundRate"
+  | "averageOrderValue";
+
 interface DashboardMetrics {
+  currency: string;
+  timezone: string;
+  granularity: Granularity;
+  conversion: {
+    missingRates: string[];
+    unconvertedOrders: number;
+  };
   totalCustomers: number;
   totalOrders: number;
   totalRevenue: number;
+  netRevenue: number;
+  totalRefunded: number;
+  refundRate: number;
   customersThisMonth: number;
   ordersThisMonth: number;
   revenueThisMonth: number;
@@ -55,17 +91,35 @@ interface DashboardMetrics {
     title: string;
     revenue: number;
     unitsSold: number;
+    refundedUnits: number;
     averagePrice: number;
+    stockOnHand: number;
+    variants: Array<{
+      id: string;
+      sku: string | null;
+      title: string | null;
+      price: number;
+      unitsSold: number;
+      revenue: number;
+      stockOnHand: number;
+    }>;
   }>;
-  revenueTrends: Array<{
-    date: string;
-    revenue: number;
-    orders: number;
-    customers: number;
-    averageOrderValue: number;
-  }>;
+  revenueTrends: TrendPoint[];
+  // Only present when a comparison was asked for a date range
+  comparison: ({
+    mode: CompareMode;
+    period: { startDate: string; endDate: string };
+    conversion: { missingRates: string[]; unconvertedOrders: number };
+    deltas: Record<ComparedTotal, number | null>;
+    revenueTrends: Array<TrendPoint & { comparisonDate: string }>;
+  } & Record<ComparedTotal, number>) | null;
 }
 
+const compareLabels: Record<CompareMode, string> = {
+  previous_period: "previous period",
+  previous_year: "previous year",
+};
+
 export default function Dashboard() {
   const { user, loading: authLoading, signOut } = useAuth();
   const router = useRouter();
@@ -80,19 +134,20 @@ export default function Dashboard() {
   // Use a ref to prevent multiple simultaneous API calls
   const fetchingRef = useRef(false);
   
-  // Initialize with default date range (last 3 months for better historical view)
-  const getDefaultDates = () => {
-    const end = new Date();
-    const start = new Date();
-    start.setMonth(end.getMonth() - 3); // Changed from 30 days to 3 months
+  // Initialize with default date range (last 3 months for better historical view),
+  // as calendar days in the store's timezone once the tenant is known
+  const getDefaultDates = (timezone?: string | null) => {
+    const end = zonedDayKey(new Date(), timezone || undefined);
     return {
-      start: start.toISOString().split('T')[0],
-      end: end.toISOString().split('T')[0]
+      start: shiftDayKey(end, { months: -3 }),
+      end
     };
   };
 
   const [startDate, setStartDate] = useState(() => getDefaultDates().start);
   const [endDate, setEndDate] = useState(() => getDefaultDates().end);
+  const [compare, setCompare] = useState<CompareMode | null>("previous_period");
+  const [granularity, setGranularity] = useState<Granularity | "auto">("auto");
 
   // Memoize the date range to prevent unnecessary re-renders
   const dateRange = useMemo(() => ({ start: startDate, end: endDate }), [startDate, endDate]);
@@ -114,17 +169,19 @@ export default function Dashboard() {
   }, [selectedTenant]);
 
   // Use refs to track the last fetched parameters to avoid unnecessary refetches
-  const lastFetchParamsRef = useRef<{tenantId: string, startDate: string, endDate: string} | null>(null);
+  const lastFetchParamsRef = useRef<{tenantId: string, startDate: string, endDate: string, compare: CompareMode | null, granularity: Granularity | "auto"} | null>(null);
 
   const fetchMetrics = useCallback(async (forceRefetch = false) => {
     if (!selectedTenant) return;
 
     // Check if we already have data for these exact parameters
-    const currentParams = { tenantId: selectedTenant, startDate, endDate };
+    const currentParams = { tenantId: selectedTenant, startDate, endDate, compare, granularity };
     if (!forceRefetch && lastFetchParamsRef.current && 
         lastFetchParamsRef.current.tenantId === currentParams.tenantId &&
         lastFetchParamsRef.current.startDate === currentParams.startDate &&
-        lastFetchParamsRef.current.endDate === currentParams.endDate) {
+        lastFetchParamsRef.current.endDate === currentParams.endDate &&
+        lastFetchParamsRef.current.compare === currentParams.compare &&
+        lastFetchParamsRef.current.granularity === currentParams.granularity) {
       console.log('Skipping fetch - data already loaded for these parameters:', currentParams);
       return;
     }
@@ -142,6 +199,10 @@ export default function Dashboard() {
       if (startDate && endDate) {
         url += `&startDate=${startDate}&endDate=${endDate}`;
       }
+      if (compare) {
+        url += `&compare=${compare}`;
+      }
+      url += `&granularity=${granularity}`;
       
       console.log('Fetching metrics:', currentParams);
       
@@ -160,7 +221,7 @@ export default function Dashboard() {
       setLoading(false);
       fetchingRef.current = false;
     }
-  }, [selectedTenant, startDate, endDate]);
+  }, [selectedTenant, startDate, endDate, compare, granularity]);
 
   // Single useEffect to handle metrics fetching with proper debouncing and caching
   useEffect(() => {
@@ -178,7 +239,7 @@ export default function Dashboard() {
     }, 300);
     
     return () => clearTimeout(timeoutId);
-  }, [selectedTenant, startDate, endDate]); // Only depend on the actual data parameters
+  }, [selectedTenant, startDate, endDate, compare, granularity]); // Only depend on the actual data parameters
 
   const fetchTenants = async () => {
     setTenantsLoading(true);
@@ -188,7 +249,10 @@ export default function Dashboard() {
         const data = await response.json();
         setTenants(data);
         if (data.length > 0) {
+          const defaults = getDefaultDates(data[0].timezone);
           setSelectedTenant(data[0].id);
+          setStartDate(defaults.start);
+          setEndDate(defaults.end);
         }
       } else {
         console.error("Failed to fetch tenants:", await response.text());
@@ -230,6 +294,16 @@ export default function Dashboard() {
     setEndDate(end);
   }, []);
 
+  // Up/down indicator for a headline number against the comparison period, if there is one
+  const comparisonTrend = (key: ComparedTotal) => {
+    const delta = metrics?.comparison?.deltas[key];
+    if (delta === null || delta === undefined) return undefined;
+    return { value: Number(delta.toFixed(1)), isPositive: delta >= 0 };
+  };
+
+  const comparisonDescription = (fallback: string) =>
+    metrics?.comparison ? `vs ${compareLabels[metrics.comparison.mode]}` : fallback;
+
   // Show auth loading wireframe
   if (authLoading) {
     return <AuthLoadingWireframe />;
@@ -350,8 +424,13 @@ export default function Dashboard() {
                   {/* Date Range Filter */}
                   <DateRangeFilter 
                     onDateRangeChange={handleDateRangeChange}
+                    timezone={metrics.timezone}
                     initialStartDate={startDate}
                     initialEndDate={endDate}
+                    compare={compare}
+                    onCompareChange={setCompare}
+                    granularity={granularity}
+                    onGranularityChange={setGranularity}
                   />
 
                   {/* Enhanced Metrics Cards */}
@@ -359,12 +438,8 @@ export default function Dashboard() {
                     <MetricCard
                       title="Total Customers"
                       value={metrics.totalCustomers.toLocaleString()}
-                      description={`+${metrics.customersThisMonth} this month`}
-                      trend={{
-                        value: metrics.customersThisMonth > 0 ? 
-                          ((metrics.customersThisMonth / Math.max(metrics.totalCustomers - metrics.customersThisMonth, 1)) * 100) : 0,
-                        isPositive: metrics.customersThisMonth > 0
-                      }}
+                      description={comparisonDescription(`+${metrics.customersThisMonth} this month`)}
+                      trend={comparisonTrend("totalCustomers")}
                       icon={
                         <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
@@ -375,12 +450,8 @@ export default function Dashboard() {
                     <MetricCard
                       title="Total Orders"
                       value={metrics.totalOrders.toLocaleString()}
-                      description={`+${metrics.ordersThisMonth} this month`}
-                      trend={{
-                        value: metrics.ordersThisMonth > 0 ? 
-                          ((metrics.ordersThisMonth / Math.max(metrics.totalOrders - metrics.ordersThisMonth, 1)) * 100) : 0,
-                        isPositive: metrics.ordersThisMonth > 0
-                      }}
+                      description={comparisonDescription(`+${metrics.ordersThisMonth} this month`)}
+                      trend={comparisonTrend("totalOrders")}
                       icon={
                         <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 11V7a4 4 0 00-8 0v4M5 9h14l1 12H4L5 9z" />
@@ -389,13 +460,10 @@ export default function Dashboard() {
                     />
                     <MetricCard
                       title="Total Revenue"
-                      value={`₹${metrics.totalRevenue.toFixed(2)}`}
-                      description={`+₹${metrics.revenueThisMonth.toFixed(2)} this month`}
-                      trend={{
-                        value: metrics.revenueThisMonth > 0 ? 
-                          ((metrics.revenueThisMonth / Math.max(metrics.totalRevenue - metrics.revenueThisMonth, 1)) * 100) : 0,
-                        isPositive: metrics.revenueThisMonth > 0
-                      }}
+                      value={metrics.totalRevenue}
+                      currency={metrics.currency}
+                      description={comparisonDescription(`+${formatCurrency(metrics.revenueThisMonth, metrics.currency)} this month`)}
+                      trend={comparisonTrend("totalRevenue")}
                       icon={
                         <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1" />
@@ -404,8 +472,10 @@ export default function Dashboard() {
                     />
                     <MetricCard
                       title="Avg Order Value"
-                      value={`₹${metrics.totalOrders > 0 ? (metrics.totalRevenue / metrics.totalOrders).toFixed(2) : '0.00'}`}
-                      description="All time average"
+                      value={metrics.totalOrders > 0 ? metrics.totalRevenue / metrics.totalOrders : 0}
+                      currency={metrics.currency}
+                      description={comparisonDescription("Average over the range")}
+                      trend={comparisonTrend("averageOrderValue")}
                       icon={
                         <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
@@ -415,20 +485,58 @@ export default function Dashboard() {
                   </div>
 
                   {/* Revenue Trends */}
-                  <RevenueTrends data={metrics.revenueTrends || []} />
+                  <RevenueTrends
+                    data={metrics.revenueTrends || []}
+                    refundSummary={{
+                      netRevenue: metrics.netRevenue || 0,
+                      totalRefunded: metrics.totalRefunded || 0,
+                      refundRate: metrics.refundRate || 0
+                    }}
+                    comparison={metrics.comparison ? {
+                      label: compareLabels[metrics.comparison.mode],
+                      data: metrics.comparison.revenueTrends
+                    } : null}
+                    granularity={metrics.granularity}
+                    currency={metrics.currency}
+                  />
 
                   {/* Charts and Tables */}
                   <div className="grid gap-6 md:grid-cols-12">
                     <div className="md:col-span-8">
-                      <OrdersByDateChart data={metrics.ordersByDate} />
+                      <OrdersByDateChart
+                        data={metrics.ordersByDate}
+                        currency={metrics.currency}
+                        granularity={metrics.granularity}
+                      />
                     </div>
                     <div className="md:col-span-4">
-                      <TopCustomers customers={metrics.topCustomers} />
+                      <TopCustomers customers={metrics.topCustomers} currency={metrics.currency} />
+                    </div>
+                  </div>
+
+                  {/* Top Products and Discounts */}
+                  <div className="grid gap-6 md:grid-cols-12">
+                    <div className="md:col-span-7">
+                      <TopProducts products={metrics.topProducts || []} currency={metrics.currency} />
+                    </div>
+                    <div className="md:col-span-5">
+                      <DiscountCodes
+                        tenantId={selectedTenant}
+                        startDate={startDate}
+                        endDate={endDate}
+                      />
                     </div>
                   </div>
 
-                  {/* Top Products */}
-                  <TopProducts products={metrics.topProducts || []} />
+                  {/* Cohort Retention */}
+                  <CohortRetention
+                    tenantId={selectedTenant}
+                    startDate={startDate}
+                    endDate={endDate}
+                  />
+
+                  {/* Inventory */}
+                  <InventoryAlerts tenantId={selectedTenant} />
                 </>
               ) : (
                 <NoDataWireframe />
@@ -0,0 +1,192 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import { cn, formatCurrency as formatAmount } from '@/lib/utils'
+import { formatPeriodLabel } from '@/lib/timezone'
+
+interface RetentionCell {
+  month: number
+  // null for months that have not happened yet
+  customers: number | null
+  percentage: number | null
+  revenue: number | null
+}
+
+interface Cohort {
+  cohort: string
+  customers: number
+  revenue: number
+  retention: RetentionCell[]
+}
+
+interface CohortData {
+  currency: string
+  months: number
+  cohorts: Cohort[]
+}
+
+interface CohortRetentionProps {
+  tenantId: string
+  startDate?: string
+  endDate?: string
+  className?: string
+}
+
+export function CohortRetention({ tenantId, startDate, endDate, className }: CohortRetentionProps) {
+  const [data, setData] = useState<CohortData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [view, setView] = useState<'retention' | 'revenue'>('retention')
+
+  useEffect(() => {
+    if (!tenantId) return
+    fetchCohorts()
+  }, [tenantId, startDate, endDate])
+
+  const fetchCohorts = async () => {
+    setLoading(true)
+    try {
+      let url = `/api/dashboard/cohorts?tenantId=${tenantId}`
+      if (startDate && endDate) {
+        url += `&startDate=${startDate}&endDate=${endDate}`
+      }
+
+      const response = await fetch(url, {
+        credentials: 'include'
+      })
+
+      if (response.ok) {
+        setData(await response.json())
+      } else {
+        console.error('Failed to fetch cohort retention')
+      }
+    } catch (error) {
+      console.error('Error fetching cohort retention:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const formatCurrency = (value: number) => formatAmount(value, data?.currency, { maximumFractionDigits: 0 })
+
+  // Shade cells by retention, or by revenue relative to the best cell on the grid
+  const maxRevenue = Math.max(
+    0,
+    ...(data?.cohorts || []).flatMap(cohort => cohort.retention.map(cell => cell.revenue || 0))
+  )
+  const intensity = (cell: RetentionCell) => {
+    if (view === 'retention') return (cell.percentage || 0) / 100
+    return maxRevenue > 0 ? (cell.revenue || 0) / maxRevenue : 0
+  }
+
+  const cohorts = (data?.cohorts || []).filter(cohort => cohort.customers > 0)
+
+  return (
+    <Card className={cn("", className)}>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <svg
+              className="w-5 h-5 text-indigo-500"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M4 5a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H5a1 1 0 01-1-1V5zm10 0a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1V5zM4 15a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H5a1 1 0 01-1-1v-4zm10 0a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1v-4z"
+              />
+            </svg>
+            <span>Customer Retention by Cohort</span>
+          </CardTitle>
+          <div className="flex gap-2">
+            <Button
+              variant={view === 'retention' ? "default" : "outline"}
+              size="sm"
+              onClick={() => setView('retention')}
+              className="text-xs"
+            >
+              Retention
+            </Button>
+            <Button
+              variant={view === 'revenue' ? "default" : "outline"}
+              size="sm"
+              onClick={() => setView('revenue')}
+              className="text-xs"
+            >
+              Revenue
+            </Button>
+          </div>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Customers grouped by the month of their first order, and the share who ordered again in each following month
+        </p>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="space-y-2">
+            {[...Array(6)].map((_, i) => (
+              <Skeleton key={i} className="h-8 w-full" />
+            ))}
+          </div>
+        ) : !data || cohorts.length === 0 ? (
+          <div className="text-center text-muted-foreground py-8">
+            <p className="font-medium">No cohorts yet</p>
+            <p className="text-sm mt-1">No customer placed a first order in this period</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs border-separate border-spacing-1">
+              <thead>
+                <tr className="text-muted-foreground">
+                  <th className="text-left font-medium px-2">Cohort</th>
+                  <th className="text-right font-medium px-2">Customers</th>
+                  <th className="text-right font-medium px-2">Revenue</th>
+                  {[...Array(data.months + 1)].map((_, month) => (
+                    <th key={month} className="text-center font-medium px-2">M{month}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {cohorts.map(cohort => (
+                  <tr key={cohort.cohort}>
+                    <td className="font-medium px-2 whitespace-nowrap">
+                      {formatPeriodLabel(`${cohort.cohort}-01`, 'month')}
+                    </td>
+                    <td className="text-right px-2">{cohort.customers.toLocaleString()}</td>
+                    <td className="text-right px-2 whitespace-nowrap">{formatCurrency(cohort.revenue)}</td>
+                    {cohort.retention.map(cell => {
+                      if (cell.customers === null) {
+                        return <td key={cell.month} className="rounded bg-muted/40" />
+                      }
+                      const level = intensity(cell)
+                      return (
+                        <td
+                          key={cell.month}
+                          title={`${cell.customers} customers · ${formatCurrency(cell.revenue || 0)}`}
+                          className={cn(
+                            "rounded text-center px-2 py-1.5 whitespace-nowrap",
+                            level > 0.5 ? "text-white" : "text-foreground"
+                          )}
+                          style={{ backgroundColor: `rgb(99 102 241 / ${Math.max(level, 0.04)})` }}
+                        >
+                          {view === 'retention'
+                            ? `${(cell.percentage || 0).toFixed(1)}%`
+                            : formatCurrency(cell.revenue || 0)}
+                        </td>
+                      )
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
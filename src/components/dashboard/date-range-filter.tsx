@@ -4,15 +4,50 @@ import { useState, useEffect } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { cn } from '@/lib/utils'
+import { Granularity, shiftDayKey, zonedDayKey } from '@/lib/timezone'
 
 interface DateRangeProps {
   onDateRangeChange: (startDate: string, endDate: string) => void
   initialStartDate?: string
   initialEndDate?: string
+  // Store timezone; presets end on today's date there
+  timezone?: string
+  // Period the selected range is compared against; the picker is hidden without a handler
+  compare?: CompareMode | null
+  onCompareChange?: (compare: CompareMode | null) => void
+  // Trend bucket size; the picker is hidden without a handler
+  granularity?: Granularity | 'auto'
+  onGranularityChange?: (granularity: Granularity | 'auto') => void
   className?: string
 }
 
-export function DateRangeFilter({ onDateRangeChange, initialStartDate, initialEndDate, className }: DateRangeProps) {
+export type CompareMode = 'previous_period' | 'previous_year'
+
+const compareOptions: Array<{ label: string; value: CompareMode | null }> = [
+  { label: 'No comparison', value: null },
+  { label: 'Previous period', value: 'previous_period' },
+  { label: 'Previous year', value: 'previous_year' }
+]
+
+const granularityOptions: Array<{ label: string; value: Granularity | 'auto' }> = [
+  { label: 'Auto', value: 'auto' },
+  { label: 'Day', value: 'day' },
+  { label: 'Week', value: 'week' },
+  { label: 'Month', value: 'month' },
+  { label: 'Quarter', value: 'quarter' }
+]
+
+export function DateRangeFilter({
+  onDateRangeChange,
+  initialStartDate,
+  initialEndDate,
+  timezone,
+  compare = null,
+  onCompareChange,
+  granularity = 'auto',
+  onGranularityChange,
+  className
+}: DateRangeProps) {
   const [selectedRange, setSelectedRange] = useState('3m') // Changed default from '30d' to '3m'
   const [customStart, setCustomStart] = useState(initialStartDate || '')
   const [customEnd, setCustomEnd] = useState(initialEndDate || '')
@@ -30,32 +65,32 @@ export function DateRangeFilter({ onDateRangeChange, initialStartDate, initialEn
   ]
 
   const calculateDateRange = (range: string) => {
-    const now = new Date()
-    let startDate = new Date()
+    const today = zonedDayKey(new Date(), timezone)
+    let startDate: string
 
     switch (range) {
       case '7d':
-        startDate.setDate(now.getDate() - 7)
+        startDate = shiftDayKey(today, { days: -7 })
         break
       case '30d':
-        startDate.setDate(now.getDate() - 30)
+        startDate = shiftDayKey(today, { days: -30 })
         break
       case '3m':
-        startDate.setMonth(now.getMonth() - 3)
+        startDate = shiftDayKey(today, { months: -3 })
         break
       case '6m':
-        startDate.setMonth(now.getMonth() - 6)
+        startDate = shiftDayKey(today, { months: -6 })
         break
       case '1y':
-        startDate.setFullYear(now.getFullYear() - 1)
+        startDate = shiftDayKey(today, { years: -1 })
         break
       default:
         return
     }
 
     return {
-      start: startDate.toISOString().split('T')[0],
-      end: now.toISOString().split('T')[0]
+      start: startDate,
+      end: today
     }
   }
 
@@ -130,6 +165,40 @@ export function DateRangeFilter({ onDateRangeChange, initialStartDate, initialEn
             </Button>
           </div>
         )}
+
+        {onCompareChange && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm font-medium text-muted-foreground">Compare to</span>
+            {compareOptions.map((option) => (
+              <Button
+                key={option.value || 'none'}
+                variant={compare === option.value ? "default" : "outline"}
+                size="sm"
+                onClick={() => onCompareChange(option.value)}
+                className="text-xs"
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {onGranularityChange && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm font-medium text-muted-foreground">Group by</span>
+            {granularityOptions.map((option) => (
+              <Button
+                key={option.value}
+                variant={granularity === option.value ? "default" : "outline"}
+                size="sm"
+                onClick={() => onGranularityChange(option.value)}
+                className="text-xs"
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+        )}
       </CardContent>
     </Card>
   )
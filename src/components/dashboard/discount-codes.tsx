@@ -0,0 +1,151 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Skeleton } from '@/components/ui/skeleton'
+import { cn, formatCurrency as formatAmount } from '@/lib/utils'
+
+interface DiscountCode {
+  code: string
+  usageCount: number
+  revenue: number
+  totalDiscount: number
+  averageDiscount: number
+  averageOrderValue: number
+  aovLift: number | null
+}
+
+interface DiscountData {
+  currency: string
+  summary: {
+    discountedOrders: number
+    baselineOrders: number
+    baselineAov: number
+    totalCodeDiscounts: number
+    lineItemDiscounts: number
+  }
+  codes: DiscountCode[]
+}
+
+interface DiscountCodesProps {
+  tenantId: string
+  startDate?: string
+  endDate?: string
+  className?: string
+}
+
+export function DiscountCodes({ tenantId, startDate, endDate, className }: DiscountCodesProps) {
+  const [data, setData] = useState<DiscountData | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    if (!tenantId) return
+    fetchDiscounts()
+  }, [tenantId, startDate, endDate])
+
+  const fetchDiscounts = async () => {
+    setLoading(true)
+    try {
+      let url = `/api/dashboard/discounts?tenantId=${tenantId}`
+      if (startDate && endDate) {
+        url += `&startDate=${startDate}&endDate=${endDate}`
+      }
+
+      const response = await fetch(url, {
+        credentials: 'include'
+      })
+
+      if (response.ok) {
+        setData(await response.json())
+      } else {
+        console.error('Failed to fetch discount metrics')
+      }
+    } catch (error) {
+      console.error('Error fetching discount metrics:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const formatCurrency = (value: number) => formatAmount(value, data?.currency)
+
+  return (
+    <Card className={cn("", className)}>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <svg
+            className="w-5 h-5 text-pink-500"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z"
+            />
+          </svg>
+          <span>Discount Codes</span>
+        </CardTitle>
+        {data && (
+          <p className="text-sm text-muted-foreground">
+            {data.summary.discountedOrders} orders used a code · {formatCurrency(data.summary.totalCodeDiscounts)} discounted
+          </p>
+        )}
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="space-y-4">
+            {[...Array(4)].map((_, i) => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : !data || data.codes.length === 0 ? (
+          <div className="text-center text-muted-foreground py-8">
+            <p className="font-medium">No discount codes used</p>
+            <p className="text-sm mt-1">Orders in this period were placed without a code</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {data.codes.slice(0, 8).map(code => (
+              <div key={code.code} className="flex items-center justify-between">
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex items-center space-x-2">
+                    <Badge variant="outline" className="font-mono">{code.code}</Badge>
+                    {code.aovLift !== null && (
+                      <span className={cn(
+                        "text-xs font-medium",
+                        code.aovLift >= 0 ? "text-green-600" : "text-red-500"
+                      )}>
+                        {code.aovLift >= 0 ? '+' : ''}{code.aovLift.toFixed(1)}% AOV
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {code.usageCount} {code.usageCount === 1 ? 'use' : 'uses'} · {formatCurrency(code.averageDiscount)} avg discount
+                  </p>
+                </div>
+                <div className="text-right flex-shrink-0">
+                  <p className="font-bold text-sm">{formatCurrency(code.revenue)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatCurrency(code.averageOrderValue)} avg order
+                  </p>
+                </div>
+              </div>
+            ))}
+
+            {data.codes.length > 8 && (
+              <div className="text-center pt-4 border-t">
+                <p className="text-sm text-muted-foreground">
+                  Showing top 8 of {data.codes.length} codes
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,196 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Progress } from '@/components/ui/progress'
+import { cn } from '@/lib/utils'
+
+interface InventoryItem {
+  variantId: string
+  productTitle: string
+  title: string | null
+  sku: string | null
+  stockOnHand: number
+  locations: Array<{ name: string; available: number }>
+  unitsSold: number
+  dailySellRate: number
+  sellThroughRate: number
+  daysOfStock: number | null
+  lowStock: boolean
+}
+
+interface InventoryData {
+  threshold: number
+  days: number
+  summary: {
+    variantsTracked: number
+    lowStockCount: number
+    outOfStockCount: number
+    totalStockOnHand: number
+  }
+  items: InventoryItem[]
+}
+
+interface InventoryAlertsProps {
+  tenantId: string
+  className?: string
+}
+
+const THRESHOLD_OPTIONS = [7, 14, 30]
+
+export function InventoryAlerts({ tenantId, className }: InventoryAlertsProps) {
+  const [data, setData] = useState<InventoryData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [savingThreshold, setSavingThreshold] = useState(false)
+
+  useEffect(() => {
+    if (!tenantId) return
+    fetchInventory()
+  }, [tenantId])
+
+  const fetchInventory = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/dashboard/inventory?tenantId=${tenantId}`, {
+        credentials: 'include'
+      })
+
+      if (response.ok) {
+        setData(await response.json())
+      } else {
+        console.error('Failed to fetch inventory metrics')
+      }
+    } catch (error) {
+      console.error('Error fetching inventory metrics:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // The threshold is a tenant setting, so every view of the tenant uses the new value
+  const updateThreshold = async (lowStockThresholdDays: number) => {
+    setSavingThreshold(true)
+    try {
+      const response = await fetch(`/api/tenants/${tenantId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ lowStockThresholdDays })
+      })
+
+      if (response.ok) {
+        await fetchInventory()
+      } else {
+        console.error('Failed to update low-stock threshold')
+      }
+    } catch (error) {
+      console.error('Error updating low-stock threshold:', error)
+    } finally {
+      setSavingThreshold(false)
+    }
+  }
+
+  const lowStockItems = data?.items.filter(item => item.lowStock) || []
+
+  return (
+    <Card className={cn("", className)}>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <svg
+              className="w-5 h-5 text-amber-500"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"
+              />
+            </svg>
+            <span>Low Stock</span>
+            {data && data.summary.lowStockCount > 0 && (
+              <Badge variant="destructive">{data.summary.lowStockCount}</Badge>
+            )}
+          </CardTitle>
+          <div className="flex items-center gap-1">
+            <span className="text-xs text-muted-foreground mr-1">Alert under</span>
+            {THRESHOLD_OPTIONS.map(option => (
+              <Button
+                key={option}
+                size="sm"
+                variant={data?.threshold === option ? 'default' : 'outline'}
+                disabled={savingThreshold}
+                onClick={() => updateThreshold(option)}
+              >
+                {option}d
+              </Button>
+            ))}
+          </div>
+        </div>
+        {data && (
+          <p className="text-sm text-muted-foreground">
+            {data.summary.variantsTracked} variants tracked · {data.summary.outOfStockCount} out of stock · sell rate over the last {data.days} days
+          </p>
+        )}
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="space-y-4">
+            {[...Array(4)].map((_, i) => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : lowStockItems.length === 0 ? (
+          <div className="text-center text-muted-foreground py-8">
+            <p className="font-medium">No variants below {data?.threshold ?? 0} days of stock</p>
+            <p className="text-sm mt-1">Best-sellers have enough inventory at the current sell rate</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {lowStockItems.map(item => (
+              <div key={item.variantId} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-sm truncate">
+                      {item.productTitle}
+                      {item.title && item.title !== 'Default Title' && (
+                        <span className="text-muted-foreground"> · {item.title}</span>
+                      )}
+                    </p>
+                    <p
+                      className="text-xs text-muted-foreground truncate"
+                      title={item.locations.map(l => `${l.name}: ${l.available}`).join('\n')}
+                    >
+                      <span className="font-mono">{item.sku || 'No SKU'}</span>
+                      {' · '}{item.stockOnHand} on hand
+                      {item.locations.length > 1 && ` across ${item.locations.length} locations`}
+                      {' · '}{item.dailySellRate.toFixed(1)}/day
+                    </p>
+                  </div>
+                  <div className="text-right flex-shrink-0">
+                    <p className={cn(
+                      "font-bold text-sm",
+                      (item.daysOfStock ?? 0) < 3 ? "text-red-500" : "text-amber-500"
+                    )}>
+                      {item.stockOnHand <= 0 ? 'Sold out' : `${Math.floor(item.daysOfStock ?? 0)} days left`}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {item.sellThroughRate.toFixed(0)}% sell-through
+                    </p>
+                  </div>
+                </div>
+                <Progress value={item.sellThroughRate} className="h-2" />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,11 +1,13 @@
 'use client'
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { cn } from '@/lib/utils'
+import { cn, formatCurrency } from '@/lib/utils'
 
 interface MetricCardProps {
   title: string
   value: string | number
+  // Formats a numeric value as money in this currency
+  currency?: string
   description?: string
   trend?: {
     value: number
@@ -19,6 +21,7 @@ interface MetricCardProps {
 export function MetricCard({ 
   title, 
   value, 
+  currency,
   description, 
   trend, 
   icon, 
@@ -60,7 +63,7 @@ export function MetricCard({
           "text-3xl font-bold tracking-tight",
           gradient ? "text-white" : "text-foreground"
         )}>
-          {value}
+          {currency && typeof value === 'number' ? formatCurrency(value, currency) : value}
         </div>
         
         <div className="flex items-center space-x-2">
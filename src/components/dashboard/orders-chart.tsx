@@ -2,6 +2,8 @@
 
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { formatCurrency } from '@/lib/utils'
+import { Granularity, formatPeriodLabel } from '@/lib/timezone'
 
 interface OrdersByDateProps {
   data: Array<{
@@ -9,9 +11,12 @@ interface OrdersByDateProps {
     orders: number
     revenue: number
   }>
+  currency?: string
+  // Period each point covers; dates are the first day of their period
+  granularity?: Granularity
 }
 
-export function OrdersByDateChart({ data }: OrdersByDateProps) {
+export function OrdersByDateChart({ data, currency, granularity = 'day' }: OrdersByDateProps) {
   return (
     <Card className="col-span-4">
       <CardHeader>
@@ -24,17 +29,16 @@ export function OrdersByDateChart({ data }: OrdersByDateProps) {
             <XAxis 
               dataKey="date" 
               tick={{ fontSize: 12 }}
-              tickFormatter={(value) => {
-                const date = new Date(value)
-                return `${date.getMonth() + 1}/${date.getDate()}`
-              }}
+              tickFormatter={(value) => formatPeriodLabel(value, granularity)}
             />
             <YAxis yAxisId="left" tick={{ fontSize: 12 }} />
             <YAxis yAxisId="right" orientation="right" tick={{ fontSize: 12 }} />
             <Tooltip 
-              labelFormatter={(value) => `Date: ${value}`}
+              labelFormatter={(value) =>
+                granularity === 'day' ? `Date: ${value}` : `${formatPeriodLabel(value, granularity)} (from ${value})`
+              }
               formatter={(value: any, name: string) => [
-                name === 'orders' ? value : `₹${value.toFixed(2)}`,
+                name === 'orders' ? value : formatCurrency(value, currency),
                 name === 'orders' ? 'Orders' : 'Revenue'
               ]}
             />
@@ -1,29 +1,75 @@
 'use client'
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { formatCurrency as formatAmount } from '@/lib/utils'
+import { Granularity, formatPeriodLabel } from '@/lib/timezone'
 import { LineChart, Line, AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar } from 'recharts'
 
 interface TrendData {
   date: string
   revenue: number
+  netRevenue?: number
+  refunds?: number
   orders: number
   customers: number
   averageOrderValue: number
 }
 
+interface RefundSummary {
+  netRevenue: number
+  totalRefunded: number
+  refundRate: number
+}
+
+// Comparison series, dated by the day of the selected range each point lines up with
+interface ComparisonTrends {
+  label: string
+  data: Array<TrendData & { comparisonDate: string }>
+}
+
 interface RevenueTrendsProps {
   data: TrendData[]
+  refundSummary?: RefundSummary
+  comparison?: ComparisonTrends | null
+  // Period each point covers; dates are the first day of their period
+  granularity?: Granularity
+  currency?: string
   className?: string
 }
 
-export function RevenueTrends({ data, className }: RevenueTrendsProps) {
-  const formatCurrency = (value: number) => `₹${value.toFixed(2)}`
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString)
-    return `${date.getMonth() + 1}/${date.getDate()}`
+// Puts both periods on one row per date, with comparison values under previous* keys
+function withComparison(data: TrendData[], comparison: ComparisonTrends) {
+  const rows = new Map<string, any>(data.map(point => [point.date, { ...point }]))
+  for (const point of comparison.data) {
+    const row = rows.get(point.date) || {
+      date: point.date, revenue: 0, netRevenue: 0, refunds: 0, orders: 0, customers: 0, averageOrderValue: 0
+    }
+    row.comparisonDate = point.comparisonDate
+    row.previousRevenue = point.revenue
+    row.previousNetRevenue = point.netRevenue
+    row.previousOrders = point.orders
+    row.previousAverageOrderValue = point.averageOrderValue
+    rows.set(point.date, row)
   }
+  return Array.from(rows.values()).sort((a, b) => a.date.localeCompare(b.date))
+}
+
+export function RevenueTrends({
+  data,
+  refundSummary,
+  comparison,
+  granularity = 'day',
+  currency,
+  className
+}: RevenueTrendsProps) {
+  const formatCurrency = (value: number) => formatAmount(value, currency)
+  const formatDate = (dateString: string) => formatPeriodLabel(dateString, granularity)
+  const formatTooltipLabel = (dateString: string) =>
+    granularity === 'day' ? `Date: ${dateString}` : `${formatPeriodLabel(dateString, granularity)} (from ${dateString})`
 
-  if (!data || data.length === 0) {
+  const chartData = comparison ? withComparison(data || [], comparison) : data
+
+  if (!chartData || chartData.length === 0) {
     return (
       <div className={`grid gap-6 md:grid-cols-2 ${className}`}>
         <Card>
@@ -88,10 +134,15 @@ export function RevenueTrends({ data, className }: RevenueTrendsProps) {
             </svg>
             Revenue Trend
           </CardTitle>
+          {refundSummary && (
+            <p className="text-sm text-muted-foreground">
+              Net {formatCurrency(refundSummary.netRevenue)} · {formatCurrency(refundSummary.totalRefunded)} refunded ({refundSummary.refundRate.toFixed(1)}% of orders)
+            </p>
+          )}
         </CardHeader>
         <CardContent>
           <ResponsiveContainer width="100%" height={300}>
-            <AreaChart data={data}>
+            <AreaChart data={chartData}>
               <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
               <XAxis 
                 dataKey="date" 
@@ -107,8 +158,8 @@ export function RevenueTrends({ data, className }: RevenueTrendsProps) {
                 tickLine={false}
               />
               <Tooltip 
-                labelFormatter={(value) => `Date: ${value}`}
-                formatter={(value: any) => [formatCurrency(value), 'Revenue']}
+                labelFormatter={formatTooltipLabel}
+                formatter={(value: any, name: any) => [formatCurrency(value), name]}
                 contentStyle={{
                   backgroundColor: 'hsl(var(--card))',
                   border: '1px solid hsl(var(--border))',
@@ -118,11 +169,52 @@ export function RevenueTrends({ data, className }: RevenueTrendsProps) {
               <Area
                 type="monotone"
                 dataKey="revenue"
+                name="Gross Revenue"
                 stroke="hsl(var(--primary))"
                 fillOpacity={0.6}
                 fill="hsl(var(--primary))"
                 strokeWidth={2}
               />
+              <Area
+                type="monotone"
+                dataKey="netRevenue"
+                name="Net Revenue"
+                stroke="#10b981"
+                fillOpacity={0.4}
+                fill="#10b981"
+                strokeWidth={2}
+              />
+              <Area
+                type="monotone"
+                dataKey="refunds"
+                name="Refunds"
+                stroke="#ef4444"
+                fillOpacity={0.3}
+                fill="#ef4444"
+                strokeWidth={2}
+              />
+              {comparison && (
+                <Area
+                  type="monotone"
+                  dataKey="previousRevenue"
+                  name={`Gross Revenue (${comparison.label})`}
+                  stroke="hsl(var(--primary))"
+                  strokeDasharray="5 5"
+                  fill="none"
+                  strokeWidth={2}
+                />
+              )}
+              {comparison && (
+                <Area
+                  type="monotone"
+                  dataKey="previousNetRevenue"
+                  name={`Net Revenue (${comparison.label})`}
+                  stroke="#10b981"
+                  strokeDasharray="5 5"
+                  fill="none"
+                  strokeWidth={2}
+                />
+              )}
             </AreaChart>
           </ResponsiveContainer>
         </CardContent>
@@ -140,7 +232,7 @@ export function RevenueTrends({ data, className }: RevenueTrendsProps) {
         </CardHeader>
         <CardContent>
           <ResponsiveContainer width="100%" height={300}>
-            <LineChart data={data}>
+            <LineChart data={chartData}>
               <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
               <XAxis 
                 dataKey="date" 
@@ -152,7 +244,7 @@ export function RevenueTrends({ data, className }: RevenueTrendsProps) {
               <YAxis yAxisId="left" tick={{ fontSize: 12 }} axisLine={false} tickLine={false} />
               <YAxis yAxisId="right" orientation="right" tick={{ fontSize: 12 }} axisLine={false} tickLine={false} />
               <Tooltip 
-                labelFormatter={(value) => `Date: ${value}`}
+                labelFormatter={formatTooltipLabel}
                 contentStyle={{
                   backgroundColor: 'hsl(var(--card))',
                   border: '1px solid hsl(var(--border))',
@@ -177,6 +269,18 @@ export function RevenueTrends({ data, className }: RevenueTrendsProps) {
                 name="New Customers"
                 dot={{ fill: '#10b981', strokeWidth: 2, r: 4 }}
               />
+              {comparison && (
+                <Line
+                  yAxisId="left"
+                  type="monotone"
+                  dataKey="previousOrders"
+                  stroke="hsl(var(--primary))"
+                  strokeDasharray="5 5"
+                  strokeWidth={2}
+                  name={`Orders (${comparison.label})`}
+                  dot={false}
+                />
+              )}
             </LineChart>
           </ResponsiveContainer>
         </CardContent>
@@ -194,7 +298,7 @@ export function RevenueTrends({ data, className }: RevenueTrendsProps) {
         </CardHeader>
         <CardContent>
           <ResponsiveContainer width="100%" height={300}>
-            <BarChart data={data}>
+            <BarChart data={chartData}>
               <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
               <XAxis 
                 dataKey="date" 
@@ -210,8 +314,8 @@ export function RevenueTrends({ data, className }: RevenueTrendsProps) {
                 tickLine={false}
               />
               <Tooltip 
-                labelFormatter={(value) => `Date: ${value}`}
-                formatter={(value: any) => [formatCurrency(value), 'Avg Order Value']}
+                labelFormatter={formatTooltipLabel}
+                formatter={(value: any, name: any) => [formatCurrency(value), name]}
                 contentStyle={{
                   backgroundColor: 'hsl(var(--card))',
                   border: '1px solid hsl(var(--border))',
@@ -220,9 +324,19 @@ export function RevenueTrends({ data, className }: RevenueTrendsProps) {
               />
               <Bar 
                 dataKey="averageOrderValue" 
+                name="Avg Order Value"
                 fill="#f59e0b"
                 radius={[4, 4, 0, 0]}
               />
+              {comparison && (
+                <Bar
+                  dataKey="previousAverageOrderValue"
+                  name={`Avg Order Value (${comparison.label})`}
+                  fill="#f59e0b"
+                  fillOpacity={0.35}
+                  radius={[4, 4, 0, 0]}
+                />
+              )}
             </BarChart>
           </ResponsiveContainer>
         </CardContent>
@@ -5,6 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Skeleton } from '@/components/ui/skeleton'
+import { Progress } from '@/components/ui/progress'
 import { 
   RefreshCw, 
   Database, 
@@ -14,12 +15,14 @@ import {
   AlertCircle,
   Settings,
   Activity,
-  BarChart3
+  BarChart3,
+  Webhook
 } from 'lucide-react'
 
 interface SyncStatus {
   lastSync: string | null
   success: boolean
+  complete: boolean
   recordsProcessed: number
   duration: number
   error: string | null
@@ -27,15 +30,31 @@ interface SyncStatus {
   successRate: string
 }
 
+interface BackfillProgress {
+  backfillId: string
+  status: 'running' | 'complete' | 'failed'
+  startedAt: string
+  recordsImported: number
+  operations: Array<{
+    resourceType: string
+    status: string
+    objectCount: number
+    recordsImported: number
+    errorCode: string | null
+  }>
+}
+
 interface SyncData {
   tenantId: string
   tenantName: string
+  backfill: BackfillProgress | null
   lastActivity: string
   syncStatus: Record<string, SyncStatus>
   recentLogs: Array<{
     id: string
     type: string
     success: boolean
+    complete: boolean
     recordsProcessed: number
     duration: number
     createdAt: string
@@ -43,6 +62,17 @@ interface SyncData {
   }>
 }
 
+interface WebhookStatus {
+  callbackUrl: string | null
+  topics: Array<{
+    topic: string
+    live: boolean
+    address?: string
+  }>
+  stale: Array<{ id: number; topic: string; address: string }>
+  error?: string
+}
+
 interface SyncManagerProps {
   tenantId: string
   className?: string
@@ -54,6 +84,8 @@ export function SyncManager({ tenantId, className, onSyncComplete }: SyncManager
   const [loading, setLoading] = useState(true)
   const [syncing, setSyncing] = useState(false)
   const [selectedTypes, setSelectedTypes] = useState(['orders', 'customers', 'products'])
+  const [webhookStatus, setWebhookStatus] = useState<WebhookStatus | null>(null)
+  const [reconcilingWebhooks, setReconcilingWebhooks] = useState(false)
 
   const fetchSyncStatus = async () => {
     try {
@@ -74,6 +106,45 @@ export function SyncManager({ tenantId, className, onSyncComplete }: SyncManager
     }
   }
 
+  const fetchWebhookStatus = async () => {
+    try {
+      const response = await fetch(`/api/tenants/${tenantId}`, {
+        credentials: 'include'
+      })
+      
+      if (response.ok) {
+        const data = await response.json()
+        setWebhookStatus(data.webhooks)
+      } else {
+        console.error('Failed to fetch webhook status')
+      }
+    } catch (error) {
+      console.error('Error fetching webhook status:', error)
+    }
+  }
+
+  const reconcileWebhooks = async () => {
+    setReconcilingWebhooks(true)
+    try {
+      const response = await fetch(`/api/tenants/${tenantId}/webhooks`, {
+        method: 'POST',
+        credentials: 'include'
+      })
+
+      const result = await response.json()
+      
+      if (response.ok) {
+        setWebhookStatus(result)
+      } else {
+        console.error('Webhook registration failed:', result.error)
+      }
+    } catch (error) {
+      console.error('Webhook registration error:', error)
+    } finally {
+      setReconcilingWebhooks(false)
+    }
+  }
+
   const triggerSync = async (types?: string[], force = false, historical = false) => {
     setSyncing(true)
     try {
@@ -111,6 +182,7 @@ export function SyncManager({ tenantId, className, onSyncComplete }: SyncManager
 
   useEffect(() => {
     fetchSyncStatus()
+    fetchWebhookStatus()
     
     // Auto-refresh every 30 seconds
     const interval = setInterval(fetchSyncStatus, 30000)
@@ -240,6 +312,31 @@ export function SyncManager({ tenantId, className, onSyncComplete }: SyncManager
           <div className="text-sm text-muted-foreground">
             Last activity: {formatDate(syncData.lastActivity)}
           </div>
+          {syncData.backfill && syncData.backfill.status !== 'complete' && (
+            <div className="mt-4 space-y-3">
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium">Historical backfill</span>
+                <Badge variant="outline" className="capitalize">{syncData.backfill.status}</Badge>
+              </div>
+              {syncData.backfill.operations.map((operation) => (
+                <div key={operation.resourceType} className="space-y-1">
+                  <div className="flex justify-between text-xs text-muted-foreground">
+                    <span className="capitalize">{operation.resourceType}</span>
+                    <span>
+                      {operation.status.toLowerCase()}
+                      {operation.objectCount > 0 && ` • ${operation.recordsImported}/${operation.objectCount}`}
+                      {operation.errorCode && ` • ${operation.errorCode}`}
+                    </span>
+                  </div>
+                  <Progress
+                    value={operation.status === 'IMPORTED'
+                      ? 100
+                      : operation.objectCount > 0 ? (operation.recordsImported / operation.objectCount) * 100 : 0}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -275,7 +372,12 @@ export function SyncManager({ tenantId, className, onSyncComplete }: SyncManager
               </div>
 
               <div className="mt-3 flex justify-between items-center">
-                {getStatusBadge(status.success, status.successRate)}
+                <div className="flex items-center gap-1">
+                  {getStatusBadge(status.success, status.successRate)}
+                  {status.success && !status.complete && (
+                    <Badge variant="outline">Partial</Badge>
+                  )}
+                </div>
                 <Button
                   variant="ghost"
                   size="sm"
@@ -300,6 +402,53 @@ export function SyncManager({ tenantId, className, onSyncComplete }: SyncManager
         ))}
       </div>
 
+      {/* Webhook Subscriptions */}
+      {webhookStatus && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Webhook className="w-5 h-5" />
+                Webhooks
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={reconcileWebhooks}
+                disabled={reconcilingWebhooks}
+              >
+                <RefreshCw className={`w-4 h-4 mr-2 ${reconcilingWebhooks ? 'animate-spin' : ''}`} />
+                Register Webhooks
+              </Button>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {webhookStatus.error && (
+              <div className="mb-3 p-2 bg-red-50 border border-red-200 rounded text-xs text-red-600">
+                {webhookStatus.error}
+              </div>
+            )}
+            <div className="grid gap-2 md:grid-cols-2 lg:grid-cols-3">
+              {webhookStatus.topics.map((topic) => (
+                <div key={topic.topic} className="flex items-center justify-between p-2 border rounded-lg">
+                  <span className="text-sm font-mono">{topic.topic}</span>
+                  {topic.live ? (
+                    <Badge className="bg-green-100 text-green-800">Live</Badge>
+                  ) : (
+                    <Badge className="bg-red-100 text-red-800">Missing</Badge>
+                  )}
+                </div>
+              ))}
+            </div>
+            {webhookStatus.stale.length > 0 && (
+              <div className="mt-3 text-xs text-muted-foreground">
+                {webhookStatus.stale.length} stale subscription(s) will be removed on the next registration
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Recent Sync Logs */}
       <Card>
         <CardHeader>
@@ -323,6 +472,7 @@ export function SyncManager({ tenantId, className, onSyncComplete }: SyncManager
                       <div className="font-medium capitalize">{log.type}</div>
                       <div className="text-sm text-muted-foreground">
                         {log.recordsProcessed} records • {formatDuration(log.duration)}
+                        {log.success && !log.complete && ' • partial'}
                       </div>
                     </div>
                   </div>
@@ -378,7 +528,7 @@ export function SyncManager({ tenantId, className, onSyncComplete }: SyncManager
               </Button>
               <Button
                 variant="outline"
-                onClick={() => triggerSync(['products'], true)}
+                onClick={() => triggerSync(['products', 'inventory'], true)}
                 disabled={syncing}
                 className="justify-start"
               >
@@ -1,6 +1,7 @@
 'use client'
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { formatCurrency } from '@/lib/utils'
 
 interface TopCustomer {
   id: string
@@ -12,9 +13,10 @@ interface TopCustomer {
 
 interface TopCustomersProps {
   customers: TopCustomer[]
+  currency?: string
 }
 
-export function TopCustomers({ customers }: TopCustomersProps) {
+export function TopCustomers({ customers, currency }: TopCustomersProps) {
   return (
     <Card className="col-span-3">
       <CardHeader>
@@ -47,7 +49,7 @@ export function TopCustomers({ customers }: TopCustomersProps) {
                 </div>
                 <div className="text-right">
                   <p className="text-sm font-medium">
-                    ₹{totalSpent.toFixed(2)}
+                    {formatCurrency(totalSpent, currency)}
                   </p>
                   <p className="text-sm text-muted-foreground">
                     {ordersCount} orders
@@ -1,24 +1,40 @@
 'use client'
 
+import { useState } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Progress } from '@/components/ui/progress'
-import { cn } from '@/lib/utils'
+import { cn, formatCurrency } from '@/lib/utils'
+
+interface ProductVariant {
+  id: string
+  sku: string | null
+  title: string | null
+  price: number
+  unitsSold: number
+  revenue: number
+  stockOnHand: number
+}
 
 interface Product {
   id: string
   title: string
   revenue: number
   unitsSold: number
+  refundedUnits?: number
   averagePrice: number
+  stockOnHand?: number
+  variants?: ProductVariant[]
 }
 
 interface TopProductsProps {
   products: Product[]
+  currency?: string
   className?: string
 }
 
-export function TopProducts({ products, className }: TopProductsProps) {
+export function TopProducts({ products, currency, className }: TopProductsProps) {
   const maxRevenue = Math.max(...products.map(p => p.revenue), 1)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
 
   return (
     <Card className={cn("", className)}>
@@ -46,6 +62,8 @@ export function TopProducts({ products, className }: TopProductsProps) {
             const revenuePercentage = (product.revenue / maxRevenue) * 100
             const position = index + 1
             const isTop3 = position <= 3
+            const variants = product.variants || []
+            const isExpanded = expandedId === product.id
 
             return (
               <div key={product.id} className="space-y-3">
@@ -62,9 +80,34 @@ export function TopProducts({ products, className }: TopProductsProps) {
                       {position}
                     </div>
                     <div className="flex-1 min-w-0">
-                      <p className="font-medium text-sm truncate">{product.title}</p>
+                      {variants.length > 0 ? (
+                        <button
+                          type="button"
+                          onClick={() => setExpandedId(isExpanded ? null : product.id)}
+                          className="font-medium text-sm truncate text-left hover:underline"
+                        >
+                          {product.title}
+                          <span className="ml-1 text-xs text-muted-foreground">
+                            {isExpanded ? '▾' : '▸'} {variants.length} SKU{variants.length === 1 ? '' : 's'}
+                          </span>
+                        </button>
+                      ) : (
+                        <p className="font-medium text-sm truncate">{product.title}</p>
+                      )}
                       <div className="flex items-center space-x-4 text-xs text-muted-foreground">
                         <span>{product.unitsSold} sold</span>
+                        {product.stockOnHand !== undefined && variants.length > 0 && (
+                          <>
+                            <span>•</span>
+                            <span>{product.stockOnHand} in stock</span>
+                          </>
+                        )}
+                        {!!product.refundedUnits && (
+                          <>
+                            <span>•</span>
+                            <span className="text-red-500">{product.refundedUnits} refunded</span>
+                          </>
+                        )}
                         <span>•</span>
                         <span className="flex items-center space-x-1">
                           <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20">
@@ -77,17 +120,36 @@ export function TopProducts({ products, className }: TopProductsProps) {
                   </div>
                   <div className="text-right flex-shrink-0">
                     <p className="font-bold text-sm">
-                      ₹{product.revenue.toLocaleString('en-IN', {
-                        minimumFractionDigits: 2,
-                        maximumFractionDigits: 2
-                      })}
+                      {formatCurrency(product.revenue, currency)}
                     </p>
                     <p className="text-xs text-muted-foreground">
-                      ₹{product.averagePrice.toFixed(2)} avg
+                      {formatCurrency(product.averagePrice, currency)} avg
                     </p>
                   </div>
                 </div>
                 <Progress value={revenuePercentage} className="h-2" />
+
+                {isExpanded && (
+                  <div className="ml-9 space-y-2 border-l pl-3">
+                    {variants.map(variant => (
+                      <div key={variant.id} className="flex items-center justify-between text-xs">
+                        <div className="min-w-0">
+                          <p className="font-mono truncate">{variant.sku || 'No SKU'}</p>
+                          <p className="text-muted-foreground truncate">{variant.title}</p>
+                        </div>
+                        <div className="text-right flex-shrink-0 space-y-0.5">
+                          <p className="font-medium">{formatCurrency(variant.revenue, currency)} · {variant.unitsSold} sold</p>
+                          <p className={cn(
+                            "text-muted-foreground",
+                            variant.stockOnHand <= 0 && "text-red-500"
+                          )}>
+                            {variant.stockOnHand} on hand
+                          </p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             )
           })}
@@ -0,0 +1,8 @@
+// An orders/create delivery as Shopify signs it: the HMAC is the base64 SHA-256 HMAC of
+// the exact body bytes under WEBHOOK_SECRET
+export const WEBHOOK_SECRET = 'webhook-secret'
+
+export const ORDER_WEBHOOK_BODY =
+  '{"id":450789469,"name":"#1001","email":"bob.norman@example.com","currency":"USD","total_price":"598.94"}'
+
+export const ORDER_WEBHOOK_HMAC = 'vWsFYf71w9/Wp8jIX4YWmhf/O7hlE/NXY+TRbREIlZU='
@@ -0,0 +1,139 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { endOfZonedDay, getTenantTimezone, startOfZonedDay, zonedDayKey } from '@/lib/timezone'
+
+// Daily rollups behind the dashboard: order totals per day, and per product and customer
+// per day, all in shop money with one row per currency so exchange rates can still be
+// applied per day when they are read. Days are calendar days in the tenant's timezone,
+// and a day is always rebuilt whole from the raw rows, so refreshing one is idempotent.
+
+// When an order counts: when it was placed, or when it was synced for rows without a processedAt
+const ORDER_PLACED_AT = Prisma.sql`COALESCE(o."processedAt", o."createdAt")`
+
+// Calendar day an order (aliased o) was placed on, in the given timezone
+export function localDay(timezone: string) {
+  return Prisma.sql`((${ORDER_PLACED_AT} AT TIME ZONE 'UTC') AT TIME ZONE ${timezone})::date`
+}
+
+// Rebuilds the rollups for the days the given instants fall on, or for all history when
+// `touched` is null. Returns the number of days refreshed.
+export async function refreshDailyRollups(tenantId: string, touched: Date[] | null): Promise<number> {
+  if (touched && touched.length === 0) return 0
+
+  const tenant = await prisma.tenant.findUniqueOrThrow({
+    where: { id: tenantId },
+    select: { timezone: true }
+  })
+  const timezone = getTenantTimezone(tenant)
+
+  const days = touched ? [...new Set(touched.map(date => zonedDayKey(date, timezone)))].sort() : null
+
+  const orderDay = localDay(timezone)
+  let orderScope = Prisma.empty
+  if (days) {
+    // Bounded on the raw columns so the (tenantId, processedAt) index narrows the scan
+    // before the day of each order is compared
+    const from = Prisma.sql`(${startOfZonedDay(days[0], timezone)}::timestamptz AT TIME ZONE 'UTC')`
+    const to = Prisma.sql`(${endOfZonedDay(days[days.length - 1], timezone)}::timestamptz AT TIME ZONE 'UTC')`
+    orderScope = Prisma.sql`
+      AND (
+        o."processedAt" BETWEEN ${from} AND ${to}
+        OR (o."processedAt" IS NULL AND o."createdAt" BETWEEN ${from} AND ${to})
+      )
+      AND ${orderDay} = ANY(${days}::date[])`
+  }
+  const statsScope = days ? Prisma.sql`AND "day" = ANY(${days}::date[])` : Prisma.empty
+
+  await prisma.$transaction(async (tx) => {
+    // Refreshes of one tenant run one at a time, or their deletes and inserts interleave and
+    // leave days counted twice; the lock is released when the transaction ends
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${tenantId}))`
+
+    await tx.$executeRaw`DELETE FROM "daily_tenant_stats" WHERE "tenantId" = ${tenantId} ${statsScope}`
+    await tx.$executeRaw`DELETE FROM "daily_product_stats" WHERE "tenantId" = ${tenantId} ${statsScope}`
+    await tx.$executeRaw`DELETE FROM "daily_customer_stats" WHERE "tenantId" = ${tenantId} ${statsScope}`
+
+    await tx.$executeRaw`
+      INSERT INTO "daily_tenant_stats"
+        ("id", "tenantId", "day", "currency", "deleted", "orders", "refundedOrders", "revenue", "refunds", "netRevenue", "updatedAt")
+      SELECT gen_random_uuid()::text, ${tenantId}, ${orderDay}, o."currency", o."deletedAt" IS NOT NULL,
+        COUNT(*),
+        COUNT(*) FILTER (WHERE o."totalRefunded" > 0),
+        COALESCE(SUM(o."totalPrice"), 0),
+        COALESCE(SUM(o."totalRefunded"), 0),
+        -- Cancelled orders never count towards net revenue, refunded or not
+        COALESCE(SUM(
+          CASE WHEN o."cancelledAt" IS NOT NULL THEN 0
+          ELSE GREATEST(o."totalPrice" - o."totalRefunded", 0) END
+        ), 0),
+        CURRENT_TIMESTAMP
+      FROM "orders" AS o
+      WHERE o."tenantId" = ${tenantId} ${orderScope}
+      GROUP BY 3, 4, 5
+    `
+
+    // price is per unit, so line revenue scales with quantity
+    await tx.$executeRaw`
+      INSERT INTO "daily_product_stats"
+        ("id", "tenantId", "day", "currency", "deleted", "productId", "variantId", "units", "revenue", "refundedUnits", "updatedAt")
+      SELECT gen_random_uuid()::text, ${tenantId}, ${orderDay}, o."currency", o."deletedAt" IS NOT NULL,
+        oi."productId", oi."variantId", SUM(oi."quantity"), SUM(oi."price" * oi."quantity"), 0, CURRENT_TIMESTAMP
+      FROM "order_items" AS oi
+      JOIN "orders" AS o ON o."id" = oi."orderId"
+      WHERE o."tenantId" = ${tenantId} AND oi."productId" IS NOT NULL ${orderScope}
+      GROUP BY 3, 4, 5, 6, 7
+    `
+
+    // Refund line items carry no variant, so refunded units get product-level rows of their
+    // own, dated by the order they were refunded from
+    await tx.$executeRaw`
+      INSERT INTO "daily_product_stats"
+        ("id", "tenantId", "day", "currency", "deleted", "productId", "variantId", "units", "revenue", "refundedUnits", "updatedAt")
+      SELECT gen_random_uuid()::text, ${tenantId}, ${orderDay}, o."currency", o."deletedAt" IS NOT NULL,
+        ri."productId", NULL, 0, 0, SUM(ri."quantity"), CURRENT_TIMESTAMP
+      FROM "refund_line_items" AS ri
+      JOIN "refunds" AS r ON r."id" = ri."refundId"
+      JOIN "orders" AS o ON o."id" = r."orderId"
+      WHERE o."tenantId" = ${tenantId} AND ri."productId" IS NOT NULL ${orderScope}
+      GROUP BY 3, 4, 5, 6
+    `
+
+    await tx.$executeRaw`
+      INSERT INTO "daily_customer_stats"
+        ("id", "tenantId", "day", "currency", "deleted", "customerId", "orders", "revenue", "updatedAt")
+      SELECT gen_random_uuid()::text, ${tenantId}, ${orderDay}, o."currency", o."deletedAt" IS NOT NULL,
+        o."customerId", COUNT(*), COALESCE(SUM(o."totalPrice"), 0), CURRENT_TIMESTAMP
+      FROM "orders" AS o
+      WHERE o."tenantId" = ${tenantId} AND o."customerId" IS NOT NULL ${orderScope}
+      GROUP BY 3, 4, 5, 6
+    `
+  }, { timeout: days ? 30000 : 300000 })
+
+  if (!days) {
+    const rows = await prisma.dailyTenantStats.findMany({
+      where: { tenantId },
+      distinct: ['day'],
+      select: { day: true }
+    })
+    return rows.length
+  }
+  return days.length
+}
+
+export function rebuildDailyRollups(tenantId: string) {
+  return refreshDailyRollups(tenantId, null)
+}
+
+// Rollups fill in as orders sync, so orders stored before they existed would never show up;
+// a tenant with orders but no rollups gets its history built on first read. Returns the
+// number of days rebuilt, 0 when nothing was missing.
+export async function ensureDailyRollups(tenantId: string): Promise<number> {
+  const [stats, order] = await Promise.all([
+    prisma.dailyTenantStats.findFirst({ where: { tenantId }, select: { id: true } }),
+    prisma.order.findFirst({ where: { tenantId }, select: { id: true } })
+  ])
+  if (stats || !order) return 0
+
+  console.log(`[ANALYTICS] No daily rollups for tenant ${tenantId} yet, building them from stored orders`)
+  return await rebuildDailyRollups(tenantId)
+}
@@ -0,0 +1,154 @@
+import Redis from 'ioredis'
+
+// Shared cache for dashboard responses. Entries are namespaced per tenant and carry the
+// tenant's cache generation in their key, so a sync invalidates everything cached for a
+// tenant with a single increment instead of hunting down keys. Old entries simply expire.
+//
+// Backed by process memory by default, or by any Redis-compatible server (Redis, Valkey,
+// KeyDB, ...) when CACHE_REDIS_URL is set, e.g. redis://localhost:6379.
+
+export interface CacheBackend {
+  name: string
+  get(key: string): Promise<string | null>
+  set(key: string, value: string, ttlMs: number): Promise<void>
+  // Atomically increments a counter that never expires, returning the new value
+  incr(key: string): Promise<number>
+}
+
+export class MemoryCacheBackend implements CacheBackend {
+  name = 'memory'
+  private entries = new Map<string, { value: string; expiresAt: number }>()
+  // Counters live apart from entries so evicting entries can never reset one
+  private counters = new Map<string, number>()
+
+  constructor(private maxEntries = 1000) {}
+
+  async get(key: string) {
+    if (this.counters.has(key)) return String(this.counters.get(key))
+    const entry = this.entries.get(key)
+    if (!entry) return null
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key)
+      return null
+    }
+    return entry.value
+  }
+
+  async set(key: string, value: string, ttlMs: number) {
+    // Maps iterate in insertion order, so the first key is the oldest
+    if (this.entries.size >= this.maxEntries && !this.entries.has(key)) {
+      const oldest = this.entries.keys().next().value
+      if (oldest !== undefined) this.entries.delete(oldest)
+    }
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs })
+  }
+
+  async incr(key: string) {
+    const next = (this.counters.get(key) || 0) + 1
+    this.counters.set(key, next)
+    return next
+  }
+}
+
+export class RedisCacheBackend implements CacheBackend {
+  name = 'redis'
+  private client: Redis
+
+  constructor(url: string) {
+    this.client = new Redis(url, {
+      lazyConnect: true,
+      // Fail fast rather than queueing requests while the server is unreachable
+      maxRetriesPerRequest: 1,
+      enableOfflineQueue: false
+    })
+    this.client.on('error', error => console.error('[CACHE] Redis error:', error.message))
+  }
+
+  private async connected() {
+    if (this.client.status === 'wait') await this.client.connect()
+    return this.client
+  }
+
+  async get(key: string) {
+    return (await this.connected()).get(key)
+  }
+
+  async set(key: string, value: string, ttlMs: number) {
+    await (await this.connected()).set(key, value, 'PX', ttlMs)
+  }
+
+  async incr(key: string) {
+    return (await this.connected()).incr(key)
+  }
+}
+
+export type CacheStatus = 'HIT' | 'MISS' | 'BYPASS'
+
+export class TenantCache {
+  constructor(private backend: CacheBackend, private prefix = 'cache') {}
+
+  get backendName() {
+    return this.backend.name
+  }
+
+  private generationKey(tenantId: string) {
+    return `${this.prefix}:${tenantId}:generation`
+  }
+
+  private async entryKey(tenantId: string, key: string) {
+    const generation = await this.backend.get(this.generationKey(tenantId)) || '0'
+    return `${this.prefix}:${tenantId}:${generation}:${key}`
+  }
+
+  // Returns the cached value or loads and stores it. A broken backend never fails the
+  // request: the value is loaded directly and reported as BYPASS.
+  async getOrLoad<T>(
+    tenantId: string,
+    key: string,
+    ttlMs: number,
+    load: () => Promise<T>
+  ): Promise<{ value: T; status: CacheStatus }> {
+    let entryKey: string
+    try {
+      entryKey = await this.entryKey(tenantId, key)
+      const cached = await this.backend.get(entryKey)
+      if (cached !== null) {
+        return { value: JSON.parse(cached) as T, status: 'HIT' }
+      }
+    } catch (error) {
+      console.error(`[CACHE] ${this.backend.name} read failed for ${key}:`, error)
+      return { value: await load(), status: 'BYPASS' }
+    }
+
+    const value = await load()
+    try {
+      await this.backend.set(entryKey, JSON.stringify(value), ttlMs)
+    } catch (error) {
+      console.error(`[CACHE] ${this.backend.name} write failed for ${key}:`, error)
+    }
+    return { value, status: 'MISS' }
+  }
+
+  // Drops everything cached for the tenant
+  async invalidateTenant(tenantId: string) {
+    try {
+      await this.backend.incr(this.generationKey(tenantId))
+    } catch (error) {
+      console.error(`[CACHE] Failed to invalidate cache for tenant ${tenantId}:`, error)
+    }
+  }
+}
+
+function createBackend(): CacheBackend {
+  const url = process.env.CACHE_REDIS_URL
+  return url ? new RedisCacheBackend(url) : new MemoryCacheBackend()
+}
+
+// One cache per process, shared across route modules and the scheduler
+const globalForCache = globalThis as unknown as {
+  tenantCache: TenantCache | undefined
+}
+
+export const tenantCache = globalForCache.tenantCache ?? new TenantCache(createBackend())
+
+if (process.env.NODE_ENV !== 'production') globalForCache.tenantCache = tenantCache
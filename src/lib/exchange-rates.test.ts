@@ -0,0 +1,116 @@
+import { describe, expect, it, vi } from 'vitest'
+
+vi.mock('@/lib/db', () => ({ prisma: {} }))
+
+import { ExchangeRateProvider, RateTable, createCurrencyConverter, getReportingCurrency } from '@/lib/exchange-rates'
+
+const day = (key: string) => new Date(`${key}T00:00:00.000Z`)
+
+// USD quotes for two days, as a daily rates file would hold them
+const table = new RateTable([
+  { base: 'USD', quote: 'INR', rate: 80, date: day('2025-01-01') },
+  { base: 'USD', quote: 'INR', rate: 84, date: day('2025-02-01') },
+  { base: 'USD', quote: 'EUR', rate: 0.9, date: day('2025-01-01') },
+  { base: 'USD', quote: 'EUR', rate: 0.95, date: day('2025-02-01') }
+])
+
+// Answers from the table and records every lookup made
+function tableProvider() {
+  const getRate = vi.fn(async (from: string, to: string, on: Date) => table.resolve(from, to, on))
+  return { getRate } satisfies ExchangeRateProvider
+}
+
+describe('RateTable', () => {
+  it('uses the latest rate on or before the day', () => {
+    expect(table.resolve('USD', 'INR', day('2025-01-01'))).toBe(80)
+    expect(table.resolve('USD', 'INR', day('2025-01-31'))).toBe(80)
+    expect(table.resolve('USD', 'INR', day('2025-03-15'))).toBe(84)
+  })
+
+  it('falls back to the earliest rate for days before the history starts', () => {
+    expect(table.resolve('USD', 'INR', day('2024-06-01'))).toBe(80)
+  })
+
+  it('inverts a pair only known the other way round', () => {
+    expect(table.resolve('INR', 'USD', day('2025-01-01'))).toBe(1 / 80)
+  })
+
+  it('crosses two pairs through a shared base', () => {
+    expect(table.resolve('EUR', 'INR', day('2025-01-01'))).toBeCloseTo(80 / 0.9)
+  })
+
+  it('returns 1 for the same currency, even one it has no rates for', () => {
+    expect(table.resolve('JPY', 'JPY', day('2025-01-01'))).toBe(1)
+  })
+
+  it('returns null for a pair it cannot resolve', () => {
+    expect(table.resolve('USD', 'JPY', day('2025-01-01'))).toBeNull()
+    expect(table.resolve('JPY', 'INR', day('2025-01-01'))).toBeNull()
+  })
+})
+
+describe('createCurrencyConverter', () => {
+  it('converts with the rate for the day of each amount', async () => {
+    const converter = await createCurrencyConverter('INR', [
+      { currency: 'USD', date: day('2025-01-10') },
+      { currency: 'USD', date: day('2025-02-10') }
+    ], tableProvider())
+
+    expect(converter.convert(10, 'USD', day('2025-01-10'))).toBe(800)
+    expect(converter.convert(10, 'USD', day('2025-02-10'))).toBe(840)
+  })
+
+  it('looks each currency and day up once', async () => {
+    const provider = tableProvider()
+
+    await createCurrencyConverter('INR', [
+      { currency: 'USD', date: day('2025-01-10') },
+      { currency: 'USD', date: new Date('2025-01-10T18:30:00.000Z') },
+      { currency: 'EUR', date: day('2025-01-10') }
+    ], provider)
+
+    expect(provider.getRate).toHaveBeenCalledTimes(2)
+  })
+
+  it('passes amounts in the reporting currency, or with none, through unchanged', async () => {
+    const provider = tableProvider()
+    const converter = await createCurrencyConverter('INR', [
+      { currency: 'INR', date: day('2025-01-10') },
+      { currency: null, date: day('2025-01-10') }
+    ], provider)
+
+    expect(converter.convert(125.5, 'INR', day('2025-01-10'))).toBe(125.5)
+    expect(converter.convert(125.5, null, day('2025-01-10'))).toBe(125.5)
+    expect(provider.getRate).not.toHaveBeenCalled()
+    expect(converter.missingRates()).toEqual([])
+  })
+
+  it('returns null and reports the currency when no rate is known', async () => {
+    const converter = await createCurrencyConverter('INR', [
+      { currency: 'JPY', date: day('2025-01-10') },
+      { currency: 'JPY', date: day('2025-01-11') },
+      { currency: 'USD', date: day('2025-01-10') }
+    ], tableProvider())
+
+    expect(converter.convert(1000, 'JPY', day('2025-01-10'))).toBeNull()
+    expect(converter.convert(10, 'USD', day('2025-01-10'))).toBe(800)
+    expect(converter.missingRates()).toEqual(['JPY'])
+  })
+
+  it('returns null for a day it was not given up front', async () => {
+    const converter = await createCurrencyConverter('INR', [
+      { currency: 'USD', date: day('2025-01-10') }
+    ], tableProvider())
+
+    expect(converter.convert(10, 'USD', day('2025-01-11'))).toBeNull()
+  })
+})
+
+describe('getReportingCurrency', () => {
+  it('prefers the tenant setting, then the shop currency, then the fallback', () => {
+    expect(getReportingCurrency({ reportingCurrency: 'EUR', currency: 'INR' }, 'USD')).toBe('EUR')
+    expect(getReportingCurrency({ reportingCurrency: null, currency: 'INR' }, 'USD')).toBe('INR')
+    expect(getReportingCurrency({}, 'GBP')).toBe('GBP')
+    expect(getReportingCurrency({})).toBe('USD')
+  })
+})
@@ -0,0 +1,185 @@
+import fs from 'fs/promises'
+import path from 'path'
+import { prisma } from '@/lib/db'
+
+export interface ExchangeRateProvider {
+  // Units of `to` for one unit of `from` on the given day, or null when unknown
+  getRate(from: string, to: string, on: Date): Promise<number | null>
+}
+
+interface RateRow {
+  base: string
+  quote: string
+  rate: number
+  date: Date
+}
+
+function dayKey(date: Date) {
+  return date.toISOString().split('T')[0]
+}
+
+// In-memory rate history. Resolves a pair directly, through its inverse, or across a
+// shared base currency, always using the latest rate on or before the requested day.
+export class RateTable {
+  private series = new Map<string, RateRow[]>()
+
+  constructor(rows: RateRow[] = []) {
+    rows.forEach(row => this.add(row))
+  }
+
+  add(row: RateRow) {
+    const key = `${row.base}:${row.quote}`
+    const rows = this.series.get(key) || []
+    rows.push(row)
+    rows.sort((a, b) => a.date.getTime() - b.date.getTime())
+    this.series.set(key, rows)
+  }
+
+  private lookup(base: string, quote: string, on: Date): number | null {
+    const rows = this.series.get(`${base}:${quote}`)
+    if (!rows) return null
+
+    let rate: number | null = null
+    for (const row of rows) {
+      if (row.date.getTime() > on.getTime()) break
+      rate = row.rate
+    }
+    // Dates before the first known rate use the earliest one rather than nothing
+    return rate ?? rows[0].rate
+  }
+
+  resolve(from: string, to: string, on: Date): number | null {
+    if (from === to) return 1
+
+    const direct = this.lookup(from, to, on)
+    if (direct !== null) return direct
+
+    const inverse = this.lookup(to, from, on)
+    if (inverse !== null && inverse !== 0) return 1 / inverse
+
+    for (const key of this.series.keys()) {
+      const [base, quote] = key.split(':')
+      if (quote !== from) continue
+      const toFrom = this.lookup(base, from, on)
+      const toTarget = this.lookup(base, to, on)
+      if (toFrom && toTarget !== null) return toTarget / toFrom
+    }
+
+    return null
+  }
+}
+
+// Reads rates from a JSON file, either a single snapshot
+//   { "base": "USD", "date": "2025-01-01", "rates": { "INR": 83.2, "EUR": 0.92 } }
+// or a list of such snapshots for a history
+export async function loadRateFile(filePath: string): Promise<RateRow[]> {
+  let raw: string
+  try {
+    raw = await fs.readFile(filePath, 'utf8')
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return []
+    throw error
+  }
+
+  const snapshots = [].concat(JSON.parse(raw))
+  return snapshots.flatMap((snapshot: any) =>
+    Object.entries(snapshot.rates || {}).map(([quote, rate]) => ({
+      base: snapshot.base,
+      quote,
+      rate: Number(rate),
+      date: new Date(snapshot.date || 0)
+    }))
+  )
+}
+
+// Offline provider backed by the exchange_rates table plus an optional rates file.
+// Everything is loaded once per instance, so create one per request.
+export class LocalExchangeRateProvider implements ExchangeRateProvider {
+  private table: Promise<RateTable> | null = null
+
+  constructor(private filePath: string | null = process.env.EXCHANGE_RATES_FILE || path.join(process.cwd(), 'data', 'exchange-rates.json')) {}
+
+  private load() {
+    if (!this.table) {
+      this.table = (async () => {
+        const [dbRows, fileRows] = await Promise.all([
+          prisma.exchangeRate.findMany(),
+          this.filePath ? loadRateFile(this.filePath) : Promise.resolve([])
+        ])
+
+        return new RateTable([
+          ...fileRows,
+          ...dbRows.map(row => ({
+            base: row.base,
+            quote: row.quote,
+            rate: Number(row.rate),
+            date: row.date
+          }))
+        ])
+      })()
+    }
+    return this.table
+  }
+
+  async getRate(from: string, to: string, on: Date): Promise<number | null> {
+    const table = await this.load()
+    return table.resolve(from, to, on)
+  }
+}
+
+let providerFactory: () => ExchangeRateProvider = () => new LocalExchangeRateProvider()
+
+// Swap in a different source of rates (e.g. a live API) without touching callers
+export function setExchangeRateProvider(factory: () => ExchangeRateProvider) {
+  providerFactory = factory
+}
+
+export function getExchangeRateProvider(): ExchangeRateProvider {
+  return providerFactory()
+}
+
+export interface CurrencyConverter {
+  currency: string
+  // Amount in the reporting currency, or null when no rate is known
+  convert(amount: number, from: string | null | undefined, on: Date): number | null
+  missingRates(): string[]
+}
+
+// Resolves every (currency, day) pair up front so aggregation loops can convert
+// synchronously. Amounts without a currency are taken to be in the reporting currency.
+export async function createCurrencyConverter(
+  reportingCurrency: string,
+  amounts: Array<{ currency: string | null | undefined; date: Date }>,
+  provider: ExchangeRateProvider = getExchangeRateProvider()
+): Promise<CurrencyConverter> {
+  const rates = new Map<string, number | null>()
+  const missing = new Set<string>()
+
+  for (const { currency, date } of amounts) {
+    if (!currency || currency === reportingCurrency) continue
+    const key = `${currency}:${dayKey(date)}`
+    if (rates.has(key)) continue
+
+    const rate = await provider.getRate(currency, reportingCurrency, date)
+    rates.set(key, rate)
+    if (rate === null) missing.add(currency)
+  }
+
+  return {
+    currency: reportingCurrency,
+    convert(amount, from, on) {
+      if (!from || from === reportingCurrency) return amount
+      const rate = rates.get(`${from}:${dayKey(on)}`)
+      return rate == null ? null : amount * rate
+    },
+    missingRates: () => Array.from(missing)
+  }
+}
+
+// Tenant setting first, then the shop's own currency, then whatever the orders use
+export function getReportingCurrency(
+  tenant: { reportingCurrency?: string | null; currency?: string | null },
+  fallback?: string | null
+) {
+  return tenant.reportingCurrency || tenant.currency || fallback || 'USD'
+}
@@ -0,0 +1,215 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { Clock, ShopifyRateLimiter } from '@/lib/rate-limiter'
+
+const SHOP = 'test-shop.myshopify.com'
+
+// Time only moves when something sleeps, so every wait the limiter makes is recorded
+class FakeClock implements Clock {
+  time = 0
+  sleeps: number[] = []
+
+  now() {
+    return this.time
+  }
+
+  async sleep(ms: number) {
+    this.sleeps.push(ms)
+    this.time += ms
+  }
+}
+
+function shopifyResponse(status: number, headers: Record<string, string> = {}) {
+  return new Response('{}', { status, headers })
+}
+
+// Hands out the given responses in order and counts the requests made
+function respondWith(...responses: Response[]) {
+  const request = vi.fn(async () => {
+    const response = responses.shift()
+    if (!response) throw new Error('No response left')
+    return response
+  })
+  return request
+}
+
+describe('ShopifyRateLimiter', () => {
+  let clock: FakeClock
+
+  beforeEach(() => {
+    clock = new FakeClock()
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  const createLimiter = (options: { random?: () => number; capacity?: number; maxRetries?: number } = {}) =>
+    new ShopifyRateLimiter({ clock, leakRate: 2, baseDelay: 1000, maxDelay: 30000, random: () => 0, ...options })
+
+  describe('bucket', () => {
+    it('lets requests through until the bucket is full', async () => {
+      const limiter = createLimiter({ capacity: 3 })
+
+      for (let i = 0; i < 3; i++) {
+        await limiter.schedule(SHOP, respondWith(shopifyResponse(200)))
+      }
+
+      expect(clock.sleeps).toEqual([])
+      expect(limiter.getLevel(SHOP)).toBe(3)
+    })
+
+    it('waits for one slot to leak out once full', async () => {
+      const limiter = createLimiter({ capacity: 3 })
+      for (let i = 0; i < 3; i++) {
+        await limiter.schedule(SHOP, respondWith(shopifyResponse(200)))
+      }
+
+      await limiter.schedule(SHOP, respondWith(shopifyResponse(200)))
+
+      // One request leaks out every 500ms at 2 a second
+      expect(clock.sleeps).toEqual([500])
+    })
+
+    it('refills at the leak rate', () => {
+      const limiter = createLimiter()
+      limiter.update(SHOP, new Headers({ 'x-shopify-shop-api-call-limit': '40/40' }))
+
+      clock.time += 5000
+      expect(limiter.getLevel(SHOP)).toBe(30)
+
+      clock.time += 60000
+      expect(limiter.getLevel(SHOP)).toBe(0)
+    })
+
+    it('takes the level and capacity Shopify reports', async () => {
+      const limiter = createLimiter()
+
+      await limiter.schedule(SHOP, respondWith(shopifyResponse(200, { 'x-shopify-shop-api-call-limit': '79/80' })))
+      await limiter.schedule(SHOP, respondWith(shopifyResponse(200)))
+      expect(clock.sleeps).toEqual([])
+
+      // 80/80 now, so the next request waits for a slot
+      await limiter.schedule(SHOP, respondWith(shopifyResponse(200)))
+      expect(clock.sleeps).toEqual([500])
+    })
+
+    it('ignores malformed call limit headers', () => {
+      const limiter = createLimiter()
+      limiter.update(SHOP, new Headers({ 'x-shopify-shop-api-call-limit': 'n/a' }))
+
+      expect(limiter.getLevel(SHOP)).toBe(0)
+    })
+
+    it('keeps a bucket per shop', async () => {
+      const limiter = createLimiter({ capacity: 1 })
+
+      await limiter.schedule(SHOP, respondWith(shopifyResponse(200)))
+      await limiter.schedule('other-shop.myshopify.com', respondWith(shopifyResponse(200)))
+
+      expect(clock.sleeps).toEqual([])
+    })
+  })
+
+  describe('Retry-After', () => {
+    it('waits as long as a 429 asks before retrying', async () => {
+      const limiter = createLimiter()
+      const request = respondWith(
+        shopifyResponse(429, { 'retry-after': '2.5' }),
+        shopifyResponse(200)
+      )
+
+      const response = await limiter.schedule(SHOP, request)
+
+      expect(response.status).toBe(200)
+      expect(request).toHaveBeenCalledTimes(2)
+      expect(clock.sleeps).toEqual([2500])
+    })
+
+    it('holds back other requests to the shop until Retry-After has passed', async () => {
+      const limiter = createLimiter()
+      await limiter.schedule(SHOP, respondWith(shopifyResponse(429, { 'retry-after': '2' }), shopifyResponse(200)))
+      clock.sleeps = []
+      clock.time -= 1000
+
+      await limiter.schedule(SHOP, respondWith(shopifyResponse(200)))
+
+      expect(clock.sleeps).toEqual([1000])
+    })
+
+    it('backs off exponentially when a 429 has no Retry-After', async () => {
+      const limiter = createLimiter()
+
+      await limiter.schedule(SHOP, respondWith(shopifyResponse(429), shopifyResponse(429), shopifyResponse(200)))
+
+      expect(clock.sleeps).toEqual([500, 1000])
+    })
+  })
+
+  describe('backoff', () => {
+    it('doubles the delay per attempt, jittered into the upper half', () => {
+      const low = createLimiter({ random: () => 0 })
+      const high = createLimiter({ random: () => 0.999999 })
+
+      expect([1, 2, 3, 4].map(attempt => low.getBackoffDelay(attempt))).toEqual([500, 1000, 2000, 4000])
+      expect([1, 2, 3, 4].map(attempt => Math.round(high.getBackoffDelay(attempt)))).toEqual([1000, 2000, 4000, 8000])
+    })
+
+    it('caps the delay at maxDelay', () => {
+      const limiter = createLimiter({ random: () => 0.999999 })
+
+      expect(Math.round(limiter.getBackoffDelay(10))).toBe(30000)
+    })
+
+    it('retries 5xx for idempotent methods', async () => {
+      const limiter = createLimiter({ random: () => 0.5 })
+      const request = respondWith(shopifyResponse(503), shopifyResponse(502), shopifyResponse(200))
+
+      const response = await limiter.schedule(SHOP, request, 'PUT')
+
+      expect(response.status).toBe(200)
+      expect(clock.sleeps).toEqual([750, 1500])
+    })
+
+    it('hands back a 5xx from a POST without retrying', async () => {
+      const limiter = createLimiter()
+      const request = respondWith(shopifyResponse(500))
+
+      const response = await limiter.schedule(SHOP, request, 'POST')
+
+      expect(response.status).toBe(500)
+      expect(request).toHaveBeenCalledTimes(1)
+    })
+
+    it('still retries a 429 from a POST', async () => {
+      const limiter = createLimiter()
+      const request = respondWith(shopifyResponse(429, { 'retry-after': '1' }), shopifyResponse(201))
+
+      const response = await limiter.schedule(SHOP, request, 'POST')
+
+      expect(response.status).toBe(201)
+      expect(request).toHaveBeenCalledTimes(2)
+    })
+
+    it('returns the last response once retries run out', async () => {
+      const limiter = createLimiter({ maxRetries: 2 })
+      const request = respondWith(shopifyResponse(503), shopifyResponse(503), shopifyResponse(503))
+
+      const response = await limiter.schedule(SHOP, request)
+
+      expect(response.status).toBe(503)
+      expect(request).toHaveBeenCalledTimes(3)
+      expect(clock.sleeps).toEqual([500, 1000])
+    })
+
+    it('releases the body of responses it retries', async () => {
+      const limiter = createLimiter()
+      const failed = shopifyResponse(503)
+      const cancel = vi.spyOn(failed.body!, 'cancel')
+
+      await limiter.schedule(SHOP, respondWith(failed, shopifyResponse(200)))
+
+      expect(cancel).toHaveBeenCalled()
+    })
+  })
+})
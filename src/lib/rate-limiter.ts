@@ -0,0 +1,159 @@
+// Per-shop leaky bucket for the Shopify REST Admin API. Shopify reports the bucket
+// level on every response in X-Shopify-Shop-Api-Call-Limit ("32/40") and leaks
+// requests at a fixed rate, so we mirror that locally and wait before overflowing it.
+
+export interface Clock {
+  now(): number
+  sleep(ms: number): Promise<void>
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  sleep: (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+}
+
+export interface RateLimiterOptions {
+  capacity?: number // bucket size until the first response tells us otherwise
+  leakRate?: number // requests restored per second
+  maxRetries?: number // attempts after a 429 or 5xx before handing the response back
+  baseDelay?: number // ms, doubled per retry before jitter
+  maxDelay?: number
+  clock?: Clock
+  random?: () => number
+}
+
+// A 5xx may come back after the request took effect, so only these are sent again
+const IDEMPOTENT_METHODS = ['GET', 'PUT', 'DELETE']
+
+interface BucketState {
+  capacity: number
+  level: number
+  updatedAt: number
+  blockedUntil: number
+}
+
+export class ShopifyRateLimiter {
+  private buckets = new Map<string, BucketState>()
+  private queues = new Map<string, Promise<void>>()
+  private capacity: number
+  private leakRate: number
+  private maxRetries: number
+  private baseDelay: number
+  private maxDelay: number
+  private clock: Clock
+  private random: () => number
+
+  constructor(options: RateLimiterOptions = {}) {
+    this.capacity = options.capacity ?? 40
+    this.leakRate = options.leakRate ?? 2
+    this.maxRetries = options.maxRetries ?? 4
+    this.baseDelay = options.baseDelay ?? 1000
+    this.maxDelay = options.maxDelay ?? 30000
+    this.clock = options.clock ?? systemClock
+    this.random = options.random ?? Math.random
+  }
+
+  // Runs a request through the shop's bucket, retrying 429s (honouring Retry-After)
+  // and, for idempotent methods, 5xx responses with jittered exponential backoff
+  async schedule(shop: string, request: () => Promise<Response>, method = 'GET'): Promise<Response> {
+    const retriesServerErrors = IDEMPOTENT_METHODS.includes(method.toUpperCase())
+
+    for (let attempt = 1; ; attempt++) {
+      await this.acquire(shop)
+      const response = await request()
+      this.update(shop, response.headers)
+
+      const retryable = response.status === 429 || (response.status >= 500 && retriesServerErrors)
+      if (!retryable || attempt > this.maxRetries) {
+        return response
+      }
+
+      // The response is thrown away, so its body is released rather than left holding the connection
+      await response.body?.cancel().catch(() => {})
+
+      let delay = this.getBackoffDelay(attempt)
+      if (response.status === 429) {
+        const retryAfter = parseFloat(response.headers.get('retry-after') || '')
+        if (!isNaN(retryAfter)) {
+          delay = retryAfter * 1000
+        }
+        this.getBucket(shop).blockedUntil = this.clock.now() + delay
+      }
+
+      console.warn(`[RATE LIMIT] ${shop} responded ${response.status}, retrying in ${Math.round(delay)}ms (attempt ${attempt}/${this.maxRetries})`)
+      await this.clock.sleep(delay)
+    }
+  }
+
+  // Syncs the local bucket with what Shopify reports
+  update(shop: string, headers: Headers) {
+    const callLimit = headers.get('x-shopify-shop-api-call-limit')
+    if (!callLimit) return
+
+    const [used, capacity] = callLimit.split('/').map(Number)
+    if (isNaN(used) || isNaN(capacity)) return
+
+    const bucket = this.getBucket(shop)
+    bucket.level = used
+    bucket.capacity = capacity
+    bucket.updatedAt = this.clock.now()
+  }
+
+  getBackoffDelay(attempt: number): number {
+    const delay = Math.min(this.maxDelay, this.baseDelay * Math.pow(2, attempt - 1))
+    // Full delay scaled into [50%, 100%] so concurrent callers spread out
+    return delay * (0.5 + this.random() * 0.5)
+  }
+
+  getLevel(shop: string): number {
+    const bucket = this.getBucket(shop)
+    const elapsed = (this.clock.now() - bucket.updatedAt) / 1000
+    return Math.max(0, bucket.level - elapsed * this.leakRate)
+  }
+
+  // Callers for the same shop take turns so two requests cannot both claim the last slot
+  private async acquire(shop: string) {
+    const previous = this.queues.get(shop) || Promise.resolve()
+    const turn = previous.then(() => this.waitForCapacity(shop))
+    this.queues.set(shop, turn.catch(() => {}))
+    await turn
+  }
+
+  private async waitForCapacity(shop: string) {
+    const bucket = this.getBucket(shop)
+
+    while (true) {
+      const now = this.clock.now()
+      if (bucket.blockedUntil > now) {
+        await this.clock.sleep(bucket.blockedUntil - now)
+        continue
+      }
+
+      const level = this.getLevel(shop)
+      if (level + 1 <= bucket.capacity) {
+        bucket.level = level + 1
+        bucket.updatedAt = now
+        return
+      }
+
+      await this.clock.sleep(Math.ceil(((level + 1 - bucket.capacity) / this.leakRate) * 1000))
+    }
+  }
+
+  private getBucket(shop: string): BucketState {
+    let bucket = this.buckets.get(shop)
+    if (!bucket) {
+      bucket = {
+        capacity: this.capacity,
+        level: 0,
+        updatedAt: this.clock.now(),
+        blockedUntil: 0
+      }
+      this.buckets.set(shop, bucket)
+    }
+    return bucket
+  }
+}
+
+// Shared across every tenant in the process; buckets are keyed by shop domain
+export const shopifyRateLimiter = new ShopifyRateLimiter()
@@ -1,6 +1,9 @@
 import cron from 'node-cron'
 import { prisma } from '@/lib/db'
+import { tenantCache } from '@/lib/cache'
 import { ShopifyService } from '@/services/shopify'
+import { ACTIVE_BULK_STATUSES } from '@/services/shopify-bulk'
+import { SyncRunResult } from '@/types'
 
 // Different sync schedules for different types of data
 const SCHEDULES = {
@@ -11,8 +14,18 @@ const SCHEDULES = {
   // Medium priority - every 30 minutes  
   PRODUCTS: '*/30 * * * *',
   
-  // Low priority - every hour
-  ANALYTICS: '0 * * * *',
+  // Stock levels per location - offset from products so new variants are picked up
+  INVENTORY: '15,45 * * * *',
+  
+  // Full rebuild of the dashboard rollups - daily at 4 AM. Syncs keep the days they
+  // touch current; this catches anything that moved an order to another day
+  ANALYTICS: '0 4 * * *',
+  
+  // Advance running bulk-operation backfills - every 5 minutes
+  BACKFILL: '*/5 * * * *',
+  
+  // Soft-delete rows removed in Shopify - daily at 3 AM
+  DELETIONS: '0 3 * * *',
   
   // Cleanup old sync logs - daily at 2 AM
   CLEANUP: '0 2 * * *'
@@ -20,15 +33,24 @@ const SCHEDULES = {
 
 interface SyncOptions {
   force?: boolean
-  types?: ('orders' | 'customers' | 'products' | 'analytics')[]
+  types?: ('orders' | 'customers' | 'products' | 'inventory' | 'analytics' | 'deletions')[]
   tenantId?: string
+  // Milliseconds a tenant sync may run before it stops paging and reports partial
+  timeBudget?: number
+  // Admin API for the sync loops - falls back to SHOPIFY_SYNC_API
+  api?: 'rest' | 'graphql'
+  // Historical import through Shopify Bulk Operations instead of paging
+  backfill?: boolean
 }
 
 interface SyncResult {
   success: boolean
+  // false when the run stopped before the last page; the next run picks up the rest
+  complete: boolean
   tenantId: string
   type: string
   recordsProcessed: number
+  relinked?: number
   duration: number
   error?: string
 }
@@ -41,7 +63,10 @@ export function startScheduler() {
     cron.schedule(SCHEDULES.ORDERS, () => scheduleSync('orders'))
     cron.schedule(SCHEDULES.CUSTOMERS, () => scheduleSync('customers'))
     cron.schedule(SCHEDULES.PRODUCTS, () => scheduleSync('products'))
+    cron.schedule(SCHEDULES.INVENTORY, () => scheduleSync('inventory'))
     cron.schedule(SCHEDULES.ANALYTICS, () => scheduleSync('analytics'))
+    cron.schedule(SCHEDULES.BACKFILL, () => advanceBackfills())
+    cron.schedule(SCHEDULES.DELETIONS, () => scheduleSync('deletions'))
     cron.schedule(SCHEDULES.CLEANUP, () => cleanupSyncLogs())
     
     console.log('All schedulers started successfully')
@@ -80,8 +105,9 @@ async function syncAllTenants(options: SyncOptions = {}): Promise<SyncResult[]>
 
     console.log(`Found ${tenants.length} active tenants to sync`)
 
-    // Process tenants in parallel but with rate limiting
-    const batchSize = 3 // Process 3 tenants at a time to avoid overwhelming Shopify API
+    // Shopify pacing is handled per shop by shopifyRateLimiter, so this only
+    // caps how many tenants hit the database at once
+    const batchSize = 3
     
     for (let i = 0; i < tenants.length; i += batchSize) {
       const batch = tenants.slice(i, i + batchSize)
@@ -98,6 +124,7 @@ async function syncAllTenants(options: SyncOptions = {}): Promise<SyncResult[]>
           results.push({
             success: false,
             tenantId: batch[index].id,
+            complete: false,
             type: 'batch_error',
             recordsProcessed: 0,
             duration: 0,
@@ -105,11 +132,6 @@ async function syncAllTenants(options: SyncOptions = {}): Promise<SyncResult[]>
           })
         }
       })
-      
-      // Small delay between batches to be respectful to Shopify API
-      if (i + batchSize < tenants.length) {
-        await new Promise(resolve => setTimeout(resolve, 2000))
-      }
     }
   } catch (error) {
     console.error('Error in scheduled sync:', error)
@@ -153,7 +175,25 @@ async function syncTenant(tenant: any, options: SyncOptions = {}): Promise<SyncR
       accessToken: tenant.shopifyAccessToken,
       apiKey: tenant.apiKey || undefined,
       apiSecret: tenant.apiSecret || undefined
-    }, tenant.id)
+    }, tenant.id, {
+      deadline: options.timeBudget ? startTime + options.timeBudget : undefined,
+      api: options.api
+    })
+
+    // Keeps the shop currency and timezone current for reporting; cheap, but not needed every run
+    if (options.force || !tenant.currency || !tenant.timezone) {
+      try {
+        await shopifyService.syncShopDetails()
+      } catch (error) {
+        console.error('[SCHEDULER] Failed to refresh shop details:', error)
+      }
+    }
+
+    if (options.backfill) {
+      results.push(await runBackfill(tenant, shopifyService))
+      await tenantCache.invalidateTenant(tenant.id)
+      return results
+    }
 
     const syncTypes = options.types || ['orders', 'customers', 'products']
     console.log('[SCHEDULER] Will sync types:', syncTypes)
@@ -161,7 +201,7 @@ async function syncTenant(tenant: any, options: SyncOptions = {}): Promise<SyncR
     // Execute syncs with retry logic
     for (const syncType of syncTypes) {
       const typeStartTime = Date.now()
-      let recordsProcessed = 0
+      let runResult: SyncRunResult = { processed: 0, complete: true }
       
       console.log(`[SCHEDULER] Starting ${syncType} sync (force: ${options.force})...`)
       
@@ -170,56 +210,67 @@ async function syncTenant(tenant: any, options: SyncOptions = {}): Promise<SyncR
           case 'orders':
             if (options.force) {
               console.log('[SCHEDULER] Calling forceSyncOrders...')
-              recordsProcessed = await retrySync(() => shopifyService.forceSyncOrders(100), 3)
+              runResult = await retrySync(() => shopifyService.forceSyncOrders(100), 3)
             } else {
               console.log('[SCHEDULER] Calling syncOrders...')
-              recordsProcessed = await retrySync(() => shopifyService.syncOrders(100), 3)
+              runResult = await retrySync(() => shopifyService.syncOrders(100), 3)
             }
             break
           case 'customers':
             if (options.force) {
               console.log('[SCHEDULER] Calling forceSyncCustomers...')
-              recordsProcessed = await retrySync(() => shopifyService.forceSyncCustomers(100), 3)
+              runResult = await retrySync(() => shopifyService.forceSyncCustomers(100), 3)
             } else {
               console.log('[SCHEDULER] Calling syncCustomers...')
-              recordsProcessed = await retrySync(() => shopifyService.syncCustomers(100), 3)
+              runResult = await retrySync(() => shopifyService.syncCustomers(100), 3)
             }
             break
           case 'products':
             if (options.force) {
               console.log('[SCHEDULER] Calling forceSyncProducts...')
-              recordsProcessed = await retrySync(() => shopifyService.forceSyncProducts(100), 3)
+              runResult = await retrySync(() => shopifyService.forceSyncProducts(100), 3)
             } else {
               console.log('[SCHEDULER] Calling syncProducts...')
-              recordsProcessed = await retrySync(() => shopifyService.syncProducts(100), 3)
+              runResult = await retrySync(() => shopifyService.syncProducts(100), 3)
             }
             break
+          case 'inventory':
+            console.log('[SCHEDULER] Calling syncInventory...')
+            runResult = await retrySync(() => shopifyService.syncInventory(), 3)
+            break
+          case 'deletions':
+            console.log('[SCHEDULER] Calling reconcileDeletions...')
+            runResult = await retrySync(() => shopifyService.reconcileDeletions(), 3)
+            break
           case 'analytics':
-            // Custom analytics sync logic would go here
-            console.log('[SCHEDULER] Analytics sync - no operation')
-            recordsProcessed = 0
+            runResult = await retrySync(() => shopifyService.rebuildAnalytics(), 3)
             break
         }
         
+        const { processed: recordsProcessed, complete, relinked } = runResult
         const duration = Date.now() - typeStartTime
         console.log(`[SCHEDULER] ${syncType} sync completed:`, {
           recordsProcessed,
           duration: `${duration}ms`,
-          success: true
+          success: true,
+          complete,
+          relinked
         })
         
         results.push({
           success: true,
+          complete,
           tenantId: tenant.id,
           type: syncType,
           recordsProcessed,
+          relinked,
           duration,
         })
         
         // Log successful sync
-        await logSyncResult(tenant.id, syncType, true, recordsProcessed, duration)
+        await logSyncResult(tenant.id, syncType, true, recordsProcessed, duration, undefined, complete)
         
-        console.log(`✓ Synced ${syncType} for ${tenant.name}: ${recordsProcessed} records in ${duration}ms`)
+        console.log(`✓ Synced ${syncType} for ${tenant.name}: ${recordsProcessed} records in ${duration}ms${complete ? '' : ' (partial)'}`)
         
       } catch (error) {
         const duration = Date.now() - typeStartTime
@@ -234,6 +285,7 @@ async function syncTenant(tenant: any, options: SyncOptions = {}): Promise<SyncR
         
         results.push({
           success: false,
+          complete: false,
           tenantId: tenant.id,
           type: syncType,
           recordsProcessed: 0,
@@ -242,16 +294,14 @@ async function syncTenant(tenant: any, options: SyncOptions = {}): Promise<SyncR
         })
         
         // Log failed sync
-        await logSyncResult(tenant.id, syncType, false, 0, duration, errorMessage)
+        await logSyncResult(tenant.id, syncType, false, 0, duration, errorMessage, false)
         
         console.error(`✗ Failed to sync ${syncType} for ${tenant.name}:`, errorMessage)
       }
-      
-      // Small delay between sync types to avoid rate limits
-      if (syncTypes.indexOf(syncType) < syncTypes.length - 1) {
-        await new Promise(resolve => setTimeout(resolve, 1000))
-      }
     }
+
+    // Even a partial or failed run may have written rows, so cached dashboards are dropped
+    await tenantCache.invalidateTenant(tenant.id)
     
     const totalDuration = Date.now() - startTime
     console.log('[SCHEDULER] Tenant sync completed:', {
@@ -259,6 +309,7 @@ async function syncTenant(tenant: any, options: SyncOptions = {}): Promise<SyncR
       tenantName: tenant.name,
       totalDuration: `${totalDuration}ms`,
       totalResults: results.length,
+      partial: results.filter(r => r.success && !r.complete).length,
       successful: results.filter(r => r.success).length,
       failed: results.filter(r => !r.success).length,
       totalRecords: results.reduce((sum, r) => sum + r.recordsProcessed, 0)
@@ -272,6 +323,75 @@ async function syncTenant(tenant: any, options: SyncOptions = {}): Promise<SyncR
   return results
 }
 
+// Starts a backfill if none is running and advances it as far as the time budget allows
+async function runBackfill(tenant: any, shopifyService: ShopifyService): Promise<SyncResult> {
+  const startTime = Date.now()
+  
+  try {
+    const before = await shopifyService.startBackfill()
+    const progress = await shopifyService.advanceBackfill()
+    const duration = Date.now() - startTime
+    // Progress counts every record of the backfill so far; the log gets this run's share
+    const importedBefore = before && before.backfillId === progress?.backfillId ? before.recordsImported : 0
+    const recordsProcessed = Math.max(0, (progress?.recordsImported || 0) - importedBefore)
+    const complete = progress?.status === 'complete'
+    const success = progress?.status !== 'failed'
+    
+    console.log(`[SCHEDULER] Backfill for ${tenant.name} is ${progress?.status}:`, progress?.operations)
+    await logSyncResult(tenant.id, 'backfill', success, recordsProcessed, duration, success ? undefined : 'Bulk operation failed', complete)
+    
+    return {
+      success,
+      complete,
+      tenantId: tenant.id,
+      type: 'backfill',
+      recordsProcessed,
+      duration,
+      error: success ? undefined : 'Bulk operation failed'
+    }
+  } catch (error) {
+    const duration = Date.now() - startTime
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    
+    console.error(`[SCHEDULER] Backfill failed for ${tenant.name}:`, errorMessage)
+    await logSyncResult(tenant.id, 'backfill', false, 0, duration, errorMessage, false)
+    
+    return {
+      success: false,
+      complete: false,
+      tenantId: tenant.id,
+      type: 'backfill',
+      recordsProcessed: 0,
+      duration,
+      error: errorMessage
+    }
+  }
+}
+
+async function advanceBackfills() {
+  try {
+    const tenants = await prisma.tenant.findMany({
+      where: {
+        isActive: true,
+        shopifyAccessToken: {
+          not: null
+        },
+        bulkOperations: {
+          some: {
+            status: { in: ACTIVE_BULK_STATUSES }
+          }
+        }
+      }
+    })
+    
+    for (const tenant of tenants) {
+      await syncTenant(tenant, { backfill: true, force: true, timeBudget: 4 * 60 * 1000 })
+    }
+  } catch (error) {
+    console.error('Error advancing backfills:', error)
+  }
+}
+
 async function retrySync<T>(
   syncFn: () => Promise<T>, 
   maxRetries: number, 
@@ -314,7 +434,8 @@ async function shouldSync(tenantId: string, types: string[]): Promise<boolean> {
       where: {
         tenantId,
         syncType: type,
-        success: true
+        success: true,
+        complete: true
       },
       orderBy: {
         createdAt: 'desc'
@@ -344,7 +465,8 @@ async function logSyncResult(
   success: boolean,
   recordsProcessed: number,
   duration: number,
-  error?: string
+  error?: string,
+  complete: boolean = true
 ) {
   try {
     await prisma.syncLog.create({
@@ -352,6 +474,7 @@ async function logSyncResult(
         tenantId,
         syncType,
         success,
+        complete,
         recordsProcessed,
         duration,
         error,
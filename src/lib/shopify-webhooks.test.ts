@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { isSupportedWebhookTopic, verifyShopifyWebhook } from '@/lib/shopify-webhooks'
+import { ORDER_WEBHOOK_BODY, ORDER_WEBHOOK_HMAC, WEBHOOK_SECRET } from '@/lib/__fixtures__/shopify-webhook'
+
+describe('verifyShopifyWebhook', () => {
+  it('accepts the signature Shopify sent for the body', () => {
+    expect(verifyShopifyWebhook(ORDER_WEBHOOK_BODY, ORDER_WEBHOOK_HMAC, WEBHOOK_SECRET)).toBe(true)
+  })
+
+  it('rejects a body changed after signing', () => {
+    const tampered = ORDER_WEBHOOK_BODY.replace('598.94', '0.01')
+    expect(verifyShopifyWebhook(tampered, ORDER_WEBHOOK_HMAC, WEBHOOK_SECRET)).toBe(false)
+  })
+
+  it('rejects a body that differs only in whitespace', () => {
+    const reformatted = JSON.stringify(JSON.parse(ORDER_WEBHOOK_BODY), null, 2)
+    expect(verifyShopifyWebhook(reformatted, ORDER_WEBHOOK_HMAC, WEBHOOK_SECRET)).toBe(false)
+  })
+
+  it('rejects a signature made with another secret', () => {
+    expect(verifyShopifyWebhook(ORDER_WEBHOOK_BODY, ORDER_WEBHOOK_HMAC, 'other-secret')).toBe(false)
+  })
+
+  it('rejects a missing or malformed signature header', () => {
+    expect(verifyShopifyWebhook(ORDER_WEBHOOK_BODY, null, WEBHOOK_SECRET)).toBe(false)
+    expect(verifyShopifyWebhook(ORDER_WEBHOOK_BODY, '', WEBHOOK_SECRET)).toBe(false)
+    expect(verifyShopifyWebhook(ORDER_WEBHOOK_BODY, 'not-base64!', WEBHOOK_SECRET)).toBe(false)
+    expect(verifyShopifyWebhook(ORDER_WEBHOOK_BODY, ORDER_WEBHOOK_HMAC.slice(0, 20), WEBHOOK_SECRET)).toBe(false)
+  })
+})
+
+describe('isSupportedWebhookTopic', () => {
+  it('knows the topics the route applies', () => {
+    expect(isSupportedWebhookTopic('orders/create')).toBe(true)
+    expect(isSupportedWebhookTopic('products/delete')).toBe(true)
+    expect(isSupportedWebhookTopic('app/uninstalled')).toBe(false)
+    expect(isSupportedWebhookTopic(null)).toBe(false)
+  })
+})
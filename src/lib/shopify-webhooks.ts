@@ -0,0 +1,37 @@
+import crypto from 'crypto'
+
+// Topics the ingestion route knows how to apply
+export const SUPPORTED_WEBHOOK_TOPICS = [
+  'orders/create',
+  'orders/updated',
+  'orders/cancelled',
+  'orders/delete',
+  'customers/create',
+  'customers/update',
+  'customers/delete',
+  'products/create',
+  'products/update',
+  'products/delete'
+] as const
+
+export type ShopifyWebhookTopic = typeof SUPPORTED_WEBHOOK_TOPICS[number]
+
+export function isSupportedWebhookTopic(topic: string | null): topic is ShopifyWebhookTopic {
+  return !!topic && (SUPPORTED_WEBHOOK_TOPICS as readonly string[]).includes(topic)
+}
+
+// Shopify signs the raw request body with HMAC-SHA256 and sends it base64 encoded
+// in X-Shopify-Hmac-Sha256. The body must be verified before it is parsed.
+export function verifyShopifyWebhook(rawBody: string, hmacHeader: string | null, secret: string): boolean {
+  if (!hmacHeader) return false
+
+  const digest = crypto
+    .createHmac('sha256', secret)
+    .update(rawBody, 'utf8')
+    .digest()
+  const received = Buffer.from(hmacHeader, 'base64')
+
+  if (received.length !== digest.length) return false
+
+  return crypto.timingSafeEqual(digest, received)
+}
@@ -0,0 +1,167 @@
+// Calendar helpers for reporting in a shop's own timezone. Day keys are 'YYYY-MM-DD'
+// strings naming a calendar day in that zone; Dates are always absolute instants.
+// Safe to import from client components.
+
+export const DEFAULT_TIMEZONE = 'UTC'
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function formatterFor(timeZone: string) {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    })
+    formatters.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+export function isValidTimezone(timeZone: string | null | undefined): timeZone is string {
+  if (!timeZone) return false
+  try {
+    formatterFor(timeZone)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Tenants synced before timezones were stored, or with an unknown zone, report in UTC
+export function getTenantTimezone(tenant: { timezone?: string | null } | null | undefined) {
+  return isValidTimezone(tenant?.timezone) ? tenant!.timezone! : DEFAULT_TIMEZONE
+}
+
+function zonedParts(date: Date, timeZone: string) {
+  const parts: Record<string, number> = {}
+  for (const part of formatterFor(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value)
+  }
+  return parts
+}
+
+// How far the zone's wall clock is ahead of UTC at the given instant
+function offsetMs(date: Date, timeZone: string) {
+  const p = zonedParts(date, timeZone)
+  const wallClock = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second)
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000
+}
+
+// Calendar day of an instant as seen in the zone
+export function zonedDayKey(date: Date, timeZone: string = DEFAULT_TIMEZONE) {
+  const p = zonedParts(date, timeZone)
+  return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`
+}
+
+// Instant at which the given calendar day starts in the zone
+export function startOfZonedDay(dayKey: string, timeZone: string = DEFAULT_TIMEZONE) {
+  const [year, month, day] = dayKey.split('-').map(Number)
+  const utcMidnight = Date.UTC(year, month - 1, day)
+  // Offsets change at DST transitions, so check the guess against the offset it lands on
+  const guess = utcMidnight - offsetMs(new Date(utcMidnight), timeZone)
+  return new Date(utcMidnight - offsetMs(new Date(guess), timeZone))
+}
+
+// Last millisecond of the given calendar day in the zone
+export function endOfZonedDay(dayKey: string, timeZone: string = DEFAULT_TIMEZONE) {
+  return new Date(startOfZonedDay(shiftDayKey(dayKey, { days: 1 }), timeZone).getTime() - 1)
+}
+
+export function startOfZonedMonth(date: Date, timeZone: string = DEFAULT_TIMEZONE) {
+  return startOfZonedDay(`${zonedDayKey(date, timeZone).slice(0, 7)}-01`, timeZone)
+}
+
+// Whether a value is a day key naming a real calendar day, so 2024-02-30 is not one
+export function isDayKey(value: string | null | undefined): value is string {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false
+  const date = new Date(`${value}T00:00:00Z`)
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value)
+}
+
+// Calendar arithmetic on day keys; month and year steps clamp to the end of shorter months
+export function shiftDayKey(dayKey: string, by: { days?: number; months?: number; years?: number }) {
+  const [year, month, day] = dayKey.split('-').map(Number)
+  const targetYear = year + (by.years || 0)
+  const targetMonth = month - 1 + (by.months || 0)
+  const lastDay = new Date(Date.UTC(targetYear, targetMonth + 1, 0)).getUTCDate()
+  const shifted = new Date(Date.UTC(targetYear, targetMonth, Math.min(day, lastDay) + (by.days || 0)))
+  return shifted.toISOString().split('T')[0]
+}
+
+// Absolute bounds for an inclusive range of calendar days in the zone
+export function zonedDayRange(startDay: string, endDay: string, timeZone: string = DEFAULT_TIMEZONE) {
+  return {
+    gte: startOfZonedDay(startDay, timeZone),
+    lte: endOfZonedDay(endDay, timeZone)
+  }
+}
+
+// Whole calendar days from one day key to another
+export function daysBetween(startDay: string, endDay: string) {
+  return Math.round((Date.parse(`${endDay}T00:00:00Z`) - Date.parse(`${startDay}T00:00:00Z`)) / (24 * 60 * 60 * 1000))
+}
+
+// Size of the buckets a trend series is grouped into
+export type Granularity = 'day' | 'week' | 'month' | 'quarter'
+
+export const GRANULARITIES: Granularity[] = ['day', 'week', 'month', 'quarter']
+
+// First day of the period a day falls in; weeks are ISO weeks, starting on Monday
+export function startOfPeriod(dayKey: string, granularity: Granularity) {
+  const [year, month, day] = dayKey.split('-').map(Number)
+  switch (granularity) {
+    case 'week': {
+      const weekday = (new Date(Date.UTC(year, month - 1, day)).getUTCDay() + 6) % 7
+      return shiftDayKey(dayKey, { days: -weekday })
+    }
+    case 'month':
+      return `${dayKey.slice(0, 7)}-01`
+    case 'quarter':
+      return `${year}-${String(month - ((month - 1) % 3)).padStart(2, '0')}-01`
+    default:
+      return dayKey
+  }
+}
+
+// Keeps a range to a readable number of points: days up to about six weeks, then weeks,
+// months and finally quarters
+export function autoGranularity(startDay: string, endDay: string): Granularity {
+  const days = daysBetween(startDay, endDay) + 1
+  if (days <= 45) return 'day'
+  if (days <= 180) return 'week'
+  if (days <= 730) return 'month'
+  return 'quarter'
+}
+
+// ISO 8601 week: the week belongs to the year its Thursday falls in
+export function isoWeek(dayKey: string) {
+  const thursday = shiftDayKey(startOfPeriod(dayKey, 'week'), { days: 3 })
+  const year = Number(thursday.slice(0, 4))
+  return { year, week: Math.floor(daysBetween(`${year}-01-01`, thursday) / 7) + 1 }
+}
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+// Short label for the period starting on the given day, for chart axes and tooltips
+export function formatPeriodLabel(dayKey: string, granularity: Granularity = 'day') {
+  const [year, month, day] = dayKey.split('-').map(Number)
+  switch (granularity) {
+    case 'week': {
+      const iso = isoWeek(dayKey)
+      return `W${iso.week} ${iso.year}`
+    }
+    case 'month':
+      return `${MONTH_NAMES[month - 1]} ${year}`
+    case 'quarter':
+      return `Q${Math.floor((month - 1) / 3) + 1} ${year}`
+    default:
+      return `${month}/${day}`
+  }
+}
@@ -3,4 +3,20 @@ import { twMerge } from "tailwind-merge"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
-}
\ No newline at end of file
+}
+
+// Dashboard amounts arrive already converted to the tenant's reporting currency
+export function formatCurrency(value: number, currency = 'INR', options: Intl.NumberFormatOptions = {}) {
+  try {
+    return new Intl.NumberFormat(undefined, {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+      ...options
+    }).format(value)
+  } catch {
+    // Unknown currency codes still render, just without locale symbols
+    return `${currency} ${value.toFixed(2)}`
+  }
+}
@@ -0,0 +1,103 @@
+import { prisma } from '@/lib/db'
+import { SUPPORTED_WEBHOOK_TOPICS } from '@/lib/shopify-webhooks'
+import { ShopifyService } from '@/services/shopify'
+import { ShopifyWebhookSubscription, WebhookReconcileResult, WebhookStatus } from '@/types'
+
+const WEBHOOK_PATH = '/api/webhooks/shopify'
+
+// Public base URL Shopify should deliver to
+export function getWebhookCallbackUrl(): string | null {
+  const baseUrl = process.env.APP_URL
+    || process.env.NEXTAUTH_URL
+    || (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : null)
+
+  return baseUrl ? `${baseUrl.replace(/\/$/, '')}${WEBHOOK_PATH}` : null
+}
+
+class WebhookManager {
+  private async getService(tenantId: string) {
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: tenantId }
+    })
+
+    if (!tenant || !tenant.shopifyAccessToken) {
+      throw new Error('Tenant not found or not configured')
+    }
+
+    return new ShopifyService({
+      domain: tenant.shopifyDomain,
+      accessToken: tenant.shopifyAccessToken,
+      apiKey: tenant.apiKey || undefined,
+      apiSecret: tenant.apiSecret || undefined
+    }, tenant.id)
+  }
+
+  private buildStatus(subscriptions: ShopifyWebhookSubscription[], callbackUrl: string | null): WebhookStatus {
+    const topics = SUPPORTED_WEBHOOK_TOPICS.map(topic => {
+      const subscription = subscriptions.find(s => s.topic === topic && s.address === callbackUrl)
+      return {
+        topic,
+        live: !!subscription,
+        subscriptionId: subscription?.id,
+        address: subscription?.address
+      }
+    })
+
+    // Anything not backing a live topic above is stale, including duplicates
+    const liveIds = new Set(topics.map(t => t.subscriptionId).filter(Boolean))
+    const stale = subscriptions.filter(s => !liveIds.has(s.id))
+
+    return { callbackUrl, topics, stale }
+  }
+
+  async getWebhookStatus(tenantId: string): Promise<WebhookStatus> {
+    const callbackUrl = getWebhookCallbackUrl()
+
+    try {
+      const service = await this.getService(tenantId)
+      const subscriptions = await service.listWebhooks()
+      return this.buildStatus(subscriptions, callbackUrl)
+    } catch (error) {
+      console.error(`[WEBHOOKS] Error loading webhook status for tenant ${tenantId}:`, error)
+      return {
+        callbackUrl,
+        topics: SUPPORTED_WEBHOOK_TOPICS.map(topic => ({ topic, live: false })),
+        stale: [],
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+  }
+
+  // Creates missing topics pointing at our ingestion route and deletes stale subscriptions
+  async registerWebhooksForTenant(tenantId: string): Promise<WebhookReconcileResult> {
+    const callbackUrl = getWebhookCallbackUrl()
+    if (!callbackUrl) {
+      throw new Error('APP_URL is not configured - cannot build webhook callback URL')
+    }
+
+    const service = await this.getService(tenantId)
+    const status = this.buildStatus(await service.listWebhooks(), callbackUrl)
+
+    const created: string[] = []
+    for (const topic of status.topics.filter(t => !t.live)) {
+      await service.createWebhook(topic.topic, callbackUrl)
+      created.push(topic.topic)
+    }
+
+    const deleted: number[] = []
+    for (const subscription of status.stale) {
+      await service.deleteWebhook(subscription.id)
+      deleted.push(subscription.id)
+    }
+
+    console.log(`[WEBHOOKS] Reconciled webhooks for tenant ${tenantId}:`, { created, deleted })
+
+    return {
+      ...this.buildStatus(await service.listWebhooks(), callbackUrl),
+      created,
+      deleted
+    }
+  }
+}
+
+export const webhookManager = new WebhookManager()
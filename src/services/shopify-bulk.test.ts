@@ -0,0 +1,122 @@
+import { readFileSync } from 'fs'
+import path from 'path'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+vi.mock('@/lib/db', () => ({ prisma: {} }))
+
+import { readBulkRecords } from '@/services/shopify-bulk'
+
+const RESULT_URL = 'https://storage.googleapis.com/shopify-tiers-assets-prod-us-east1/bulk-result.jsonl'
+
+// Three orders as a bulk export writes them: line items and refund line items on lines of
+// their own, pointing back at their parent through __parentId
+const BULK_ORDERS = readFileSync(path.join(__dirname, '../lib/__fixtures__/bulk-orders.jsonl'), 'utf8')
+
+// Serves the body in small chunks, so lines and multi-byte characters are split across reads
+function mockResultFile(body: string, chunkSize = 7) {
+  const bytes = new TextEncoder().encode(body)
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(new ReadableStream({
+    start(controller) {
+      for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+        controller.enqueue(bytes.slice(offset, offset + chunkSize))
+      }
+      controller.close()
+    }
+  }))))
+}
+
+async function readAll(skipLines = 0) {
+  const results = []
+  for await (const result of readBulkRecords(RESULT_URL, skipLines)) {
+    results.push(result)
+  }
+  return results
+}
+
+const titles = (record: any) => record.lineItems.nodes.map((item: any) => item.title)
+
+describe('readBulkRecords', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('attaches each child line to the record it belongs to', async () => {
+    mockResultFile(BULK_ORDERS)
+
+    const results = await readAll()
+
+    expect(results.map(({ record }) => record.name)).toEqual(['#1001', '#1002', '#1003'])
+    expect(results.map(({ record }) => titles(record))).toEqual([
+      ['Café au lait', 'Croissant'],
+      ['Baguette'],
+      ['Éclair']
+    ])
+  })
+
+  it('attaches refund line items to their refund, between the order line items', async () => {
+    mockResultFile(BULK_ORDERS)
+
+    const [first] = await readAll()
+
+    expect(first.record.refunds[0].refundLineItems.nodes).toEqual([
+      { quantity: 1, lineItem: { id: 'gid://shopify/LineItem/101' }, __parentId: 'gid://shopify/Refund/11' }
+    ])
+  })
+
+  it('drops children that arrive after their parent was yielded', async () => {
+    mockResultFile(BULK_ORDERS)
+
+    const [first, second] = await readAll()
+
+    // The stray refund line on line 7 belongs to the first order, which is already done
+    expect(first.record.refunds[0].refundLineItems.nodes).toHaveLength(1)
+    expect(second.record.refunds).toEqual([])
+    expect(second.linesConsumed).toBe(6)
+  })
+
+  it('reports the lines consumed up to each record\'s last child', async () => {
+    mockResultFile(BULK_ORDERS)
+
+    const results = await readAll()
+
+    expect(results.map(({ linesConsumed }) => linesConsumed)).toEqual([4, 6, 9])
+  })
+
+  it('resumes after the lines an earlier import consumed', async () => {
+    mockResultFile(BULK_ORDERS)
+
+    const results = await readAll(4)
+
+    expect(results.map(({ record }) => record.name)).toEqual(['#1002', '#1003'])
+    expect(results.map(({ linesConsumed }) => linesConsumed)).toEqual([6, 9])
+  })
+
+  it('skips blank lines without losing count', async () => {
+    mockResultFile(BULK_ORDERS.replace('\n', '\n\n'))
+
+    const results = await readAll()
+
+    expect(results.map(({ linesConsumed }) => linesConsumed)).toEqual([5, 7, 10])
+  })
+
+  it('stops at a truncated final line without yielding the record it belongs to', async () => {
+    mockResultFile(BULK_ORDERS.trimEnd().slice(0, -20))
+
+    const names: string[] = []
+    const reading = (async () => {
+      for await (const { record } of readBulkRecords(RESULT_URL)) {
+        names.push(record.name)
+      }
+    })()
+
+    await expect(reading).rejects.toThrow(SyntaxError)
+    // The third order may have had more children, so it is left for a resume from line 6
+    expect(names).toEqual(['#1001', '#1002'])
+  })
+
+  it('throws when the result file cannot be downloaded', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('Gone', { status: 410, statusText: 'Gone' })))
+
+    await expect(readAll()).rejects.toThrow('Failed to download bulk operation result: 410 Gone')
+  })
+})
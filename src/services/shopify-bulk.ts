@@ -0,0 +1,309 @@
+import { prisma } from '@/lib/db'
+import { ShopifyGraphQLClient } from '@/services/shopify-graphql'
+import { BackfillProgress, SyncResourceType } from '@/types'
+
+// Resources are imported in this order so orders can link to existing customers and products
+export const BACKFILL_RESOURCES: SyncResourceType[] = ['customers', 'products', 'orders']
+
+// Shopify statuses we still have to poll, plus our own PENDING (not yet submitted)
+// and COMPLETED (result file not fully imported yet)
+export const ACTIVE_BULK_STATUSES = ['PENDING', 'CREATED', 'RUNNING', 'CANCELING', 'COMPLETED']
+
+const money = `shopMoney { amount }`
+
+// Bulk queries take no pagination arguments; nested connections come back as
+// separate JSONL lines carrying the parent's id in __parentId
+export const BULK_QUERIES: Record<SyncResourceType, string> = {
+  customers: `
+    {
+      customers {
+        edges {
+          node {
+            id
+            legacyResourceId
+            email
+            firstName
+            lastName
+            phone
+            numberOfOrders
+            amountSpent { amount }
+            tags
+            emailMarketingConsent { marketingState }
+            createdAt
+            updatedAt
+          }
+        }
+      }
+    }
+  `,
+  products: `
+    {
+      products {
+        edges {
+          node {
+            id
+            legacyResourceId
+            title
+            handle
+            descriptionHtml
+            vendor
+            productType
+            tags
+            status
+            createdAt
+            updatedAt
+            images {
+              edges {
+                node { id url altText }
+              }
+            }
+            variants {
+              edges {
+                node {
+                  id
+                  legacyResourceId
+                  title
+                  sku
+                  price
+                  compareAtPrice
+                  inventoryQuantity
+                  position
+                  selectedOptions { value }
+                  inventoryItem { legacyResourceId }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  `,
+  orders: `
+    {
+      orders {
+        edges {
+          node {
+            id
+            legacyResourceId
+            name
+            email
+            currencyCode
+            presentmentCurrencyCode
+            displayFinancialStatus
+            displayFulfillmentStatus
+            tags
+            note
+            processedAt
+            cancelledAt
+            createdAt
+            updatedAt
+            totalPriceSet { ${money} presentmentMoney { amount } }
+            subtotalPriceSet { ${money} }
+            totalTaxSet { ${money} }
+            totalDiscountsSet { ${money} }
+            totalShippingPriceSet { ${money} }
+            discountCodes
+            customer { legacyResourceId }
+            # Plain lists, so they stay inline on the order line
+            fulfillments {
+              legacyResourceId
+              status
+              displayStatus
+              createdAt
+              updatedAt
+              trackingInfo { company number }
+            }
+            refunds {
+              id
+              legacyResourceId
+              note
+              createdAt
+              totalRefundedSet { ${money} }
+              # A connection, so each refunded line comes back as its own line under the refund
+              refundLineItems {
+                edges {
+                  node {
+                    quantity
+                    restockType
+                    subtotalSet { ${money} }
+                    totalTaxSet { ${money} }
+                    lineItem { id product { legacyResourceId } }
+                  }
+                }
+              }
+            }
+            lineItems {
+              edges {
+                node {
+                  id
+                  title
+                  quantity
+                  originalUnitPriceSet { ${money} }
+                  totalDiscountSet { ${money} }
+                  variant { legacyResourceId }
+                  product { legacyResourceId }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  `
+}
+
+// Maps a child node's gid type to the connection it belongs to on the parent
+const CHILD_CONNECTIONS: Record<string, string> = {
+  LineItem: 'lineItems',
+  ProductVariant: 'variants',
+  ProductImage: 'images',
+  MediaImage: 'images'
+}
+
+// Refunds are inline on the order, so their refund line items name a refund as parent
+function attachRefundLineItem(order: any, child: any): boolean {
+  const refund = (order.refunds || []).find((candidate: any) => candidate.id === child.__parentId)
+  if (!refund) return false
+
+  refund.refundLineItems = refund.refundLineItems || { nodes: [] }
+  refund.refundLineItems.nodes.push(child)
+  return true
+}
+
+function attachChild(parent: any, child: any) {
+  const type = String(child.id || '').split('/')[3]
+  const connection = CHILD_CONNECTIONS[type]
+  if (!connection) return
+
+  parent[connection] = parent[connection] || { nodes: [] }
+  parent[connection].nodes.push(child)
+}
+
+export async function runBulkQuery(client: ShopifyGraphQLClient, query: string) {
+  const data = await client.query(`
+    mutation RunBulkQuery($query: String!) {
+      bulkOperationRunQuery(query: $query) {
+        bulkOperation { id status }
+        userErrors { field message }
+      }
+    }
+  `, { query })
+
+  const { bulkOperation, userErrors } = data.bulkOperationRunQuery
+  return { bulkOperation, userErrors: (userErrors || []) as { field: string[] | null; message: string }[] }
+}
+
+export async function getBulkOperation(client: ShopifyGraphQLClient, id: string) {
+  const data = await client.query(`
+    query BulkOperationStatus($id: ID!) {
+      node(id: $id) {
+        ... on BulkOperation {
+          id
+          status
+          errorCode
+          objectCount
+          url
+          partialDataUrl
+        }
+      }
+    }
+  `, { id })
+
+  return data.node
+}
+
+// Streams a bulk result file and yields each top-level record with its nested
+// children attached. linesConsumed is the line count up to and including the
+// record's last child, so an import can resume by skipping that many lines.
+export async function* readBulkRecords(
+  url: string,
+  skipLines = 0
+): AsyncGenerator<{ record: any; linesConsumed: number }> {
+  const response = await fetch(url)
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to download bulk operation result: ${response.status} ${response.statusText}`)
+  }
+
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let lineNumber = 0
+  let current: any = null
+  let currentEnd = 0
+
+  function* consume(line: string): Generator<{ record: any; linesConsumed: number }> {
+    lineNumber++
+    if (lineNumber <= skipLines || !line.trim()) return
+
+    const node = JSON.parse(line)
+    if (node.__parentId) {
+      if (current && node.__parentId === current.id) {
+        attachChild(current, node)
+        currentEnd = lineNumber
+      } else if (current && attachRefundLineItem(current, node)) {
+        currentEnd = lineNumber
+      }
+      return
+    }
+
+    if (current) {
+      yield { record: current, linesConsumed: currentEnd }
+    }
+    current = node
+    currentEnd = lineNumber
+  }
+
+  for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(chunk, { stream: true })
+
+    let newline: number
+    while ((newline = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, newline)
+      buffer = buffer.slice(newline + 1)
+      yield* consume(line)
+    }
+  }
+
+  buffer += decoder.decode()
+  if (buffer) {
+    yield* consume(buffer)
+  }
+
+  if (current) {
+    yield { record: current, linesConsumed: currentEnd }
+  }
+}
+
+export async function getBackfillProgress(tenantId: string): Promise<BackfillProgress | null> {
+  const latest = await prisma.bulkOperation.findFirst({
+    where: { tenantId },
+    orderBy: { createdAt: 'desc' }
+  })
+
+  if (!latest) return null
+
+  const operations = await prisma.bulkOperation.findMany({
+    where: {
+      tenantId,
+      backfillId: latest.backfillId
+    },
+    orderBy: { position: 'asc' }
+  })
+
+  const isActive = operations.some(op => ACTIVE_BULK_STATUSES.includes(op.status))
+  const hasFailed = operations.some(op => op.status !== 'IMPORTED' && !ACTIVE_BULK_STATUSES.includes(op.status))
+
+  return {
+    backfillId: latest.backfillId,
+    status: isActive ? 'running' : hasFailed ? 'failed' : 'complete',
+    startedAt: operations[0]?.createdAt ?? latest.createdAt,
+    recordsImported: operations.reduce((sum, op) => sum + op.recordsImported, 0),
+    operations: operations.map(op => ({
+      resourceType: op.resourceType,
+      status: op.status,
+      objectCount: op.objectCount,
+      recordsImported: op.recordsImported,
+      errorCode: op.errorCode,
+      completedAt: op.completedAt
+    }))
+  }
+}
@@ -0,0 +1,420 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  SYNC_QUERIES,
+  ShopifyGraphQLClient,
+  ShopifyGraphQLError,
+  completeNestedConnections,
+  toRestCustomer,
+  toRestOrder,
+  toRestProduct
+} from '@/services/shopify-graphql'
+
+const SHOP = 'test-shop.myshopify.com'
+
+interface GraphQLRequest {
+  query: string
+  variables: Record<string, any>
+}
+
+// Mock GraphQL endpoint: the handler sees each request body and returns the response
+// body, or a Response for transport-level failures
+function mockGraphQL(handler: (request: GraphQLRequest) => any) {
+  const requests: GraphQLRequest[] = []
+  vi.stubGlobal('fetch', vi.fn(async (input: string, init: RequestInit) => {
+    expect(input).toBe(`https://${SHOP}/admin/api/2024-01/graphql.json`)
+    const request = JSON.parse(init.body as string)
+    requests.push(request)
+
+    const result = await handler(request)
+    return result instanceof Response ? result : new Response(JSON.stringify(result), { status: 200 })
+  }))
+  return requests
+}
+
+const cost = (requested: number, available: number, restoreRate = 50) => ({
+  requestedQueryCost: requested,
+  actualQueryCost: requested,
+  throttleStatus: { maximumAvailable: 1000, currentlyAvailable: available, restoreRate }
+})
+
+const throttledResponse = (requested: number, available: number) => ({
+  errors: [{ message: 'Throttled', extensions: { code: 'THROTTLED' } }],
+  extensions: { cost: { ...cost(requested, available), actualQueryCost: null } }
+})
+
+const connection = <T>(nodes: T[], endCursor: string | null = null) => ({
+  pageInfo: { hasNextPage: endCursor !== null, endCursor },
+  nodes
+})
+
+const money = (amount: string) => ({ shopMoney: { amount } })
+
+const createClient = () => new ShopifyGraphQLClient(SHOP, 'test-token', '2024-01')
+
+describe('ShopifyGraphQLClient', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  describe('pagination', () => {
+    it('follows endCursor until hasNextPage is false', async () => {
+      const pages: Record<string, any> = {
+        start: connection([{ legacyResourceId: '1' }, { legacyResourceId: '2' }], 'cursor-2'),
+        'cursor-2': connection([{ legacyResourceId: '3' }], 'cursor-3'),
+        'cursor-3': connection([{ legacyResourceId: '4' }])
+      }
+      const requests = mockGraphQL(({ variables }) => ({
+        data: { customers: pages[variables.after ?? 'start'] }
+      }))
+
+      const seen: string[][] = []
+      const client = createClient()
+      for await (const nodes of client.paginate(SYNC_QUERIES.customers, { first: 2, query: null }, data => data.customers)) {
+        seen.push(nodes.map((node: any) => node.legacyResourceId))
+      }
+
+      expect(seen).toEqual([['1', '2'], ['3'], ['4']])
+      expect(requests.map(request => request.variables)).toEqual([
+        { first: 2, query: null, after: null },
+        { first: 2, query: null, after: 'cursor-2' },
+        { first: 2, query: null, after: 'cursor-3' }
+      ])
+    })
+
+    it('returns a single page with its cursor', async () => {
+      mockGraphQL(() => ({
+        data: { customers: connection([{ legacyResourceId: '1' }], 'cursor-1') }
+      }))
+
+      const page = await createClient().fetchPage(SYNC_QUERIES.customers, { first: 1 }, data => data.customers)
+
+      expect(page).toEqual({ nodes: [{ legacyResourceId: '1' }], endCursor: 'cursor-1', hasNextPage: true })
+    })
+  })
+
+  describe('throttling', () => {
+    it('waits for the bucket to restore before retrying a throttled query', async () => {
+      vi.useFakeTimers()
+      let calls = 0
+      mockGraphQL(() => {
+        calls++
+        return calls === 1
+          ? throttledResponse(500, 100)
+          : { data: { shop: { name: 'Test' } }, extensions: { cost: cost(500, 500) } }
+      })
+
+      const client = createClient()
+      const result = client.query('{ shop { name } }')
+
+      // 400 points short at 50 points a second
+      await vi.advanceTimersByTimeAsync(7999)
+      expect(calls).toBe(1)
+      await vi.advanceTimersByTimeAsync(1)
+      expect(calls).toBe(2)
+
+      await expect(result).resolves.toEqual({ shop: { name: 'Test' } })
+      expect(client.lastCost?.throttleStatus.currentlyAvailable).toBe(500)
+    })
+
+    it('holds back a query it already knows the bucket cannot afford', async () => {
+      vi.useFakeTimers()
+      let calls = 0
+      mockGraphQL(() => {
+        calls++
+        return { data: {}, extensions: { cost: cost(200, calls === 1 ? 100 : 900) } }
+      })
+
+      const client = createClient()
+      await client.query('{ shop { name } }')
+
+      const second = client.query('{ shop { name } }')
+      await vi.advanceTimersByTimeAsync(1999)
+      expect(calls).toBe(1)
+      await vi.advanceTimersByTimeAsync(1)
+      expect(calls).toBe(2)
+      await second
+    })
+
+    it('gives up after repeated throttling', async () => {
+      vi.useFakeTimers()
+      const requests = mockGraphQL(() => throttledResponse(100, 50))
+
+      const result = createClient().query('{ shop { name } }')
+      const assertion = expect(result).rejects.toBeInstanceOf(ShopifyGraphQLError)
+      await vi.runAllTimersAsync()
+      await assertion
+
+      expect(requests).toHaveLength(5)
+    })
+
+    it('adds up the actual cost of every query', async () => {
+      mockGraphQL(() => ({ data: {}, extensions: { cost: cost(10, 990) } }))
+
+      const client = createClient()
+      await client.query('{ shop { name } }')
+      await client.query('{ shop { name } }')
+
+      expect(client.totalActualCost).toBe(20)
+    })
+  })
+
+  describe('errors', () => {
+    it('throws GraphQL errors with the original error list', async () => {
+      const errors = [{ message: 'Field "nope" doesn\'t exist on type "Shop"' }]
+      mockGraphQL(() => ({ errors }))
+
+      const error = await createClient().query('{ shop { nope } }').catch(e => e)
+
+      expect(error).toBeInstanceOf(ShopifyGraphQLError)
+      expect(error.errors).toEqual(errors)
+    })
+
+    it('throws on HTTP failures', async () => {
+      mockGraphQL(() => new Response('Unauthorized', { status: 401, statusText: 'Unauthorized' }))
+
+      await expect(createClient().query('{ shop { name } }')).rejects.toThrow('Shopify GraphQL error: 401 Unauthorized')
+    })
+  })
+
+  describe('completeNestedConnections', () => {
+    it('pages in the line items that did not fit on the order page', async () => {
+      const requests = mockGraphQL(({ variables }) => ({
+        data: {
+          order: {
+            lineItems: variables.after === 'line-2'
+              ? connection([{ title: 'Third' }], 'line-3')
+              : connection([{ title: 'Fourth' }])
+          }
+        }
+      }))
+
+      const order = {
+        id: 'gid://shopify/Order/1',
+        lineItems: connection([{ title: 'First' }, { title: 'Second' }], 'line-2'),
+        refunds: []
+      }
+      await completeNestedConnections(createClient(), 'orders', [order])
+
+      expect(order.lineItems).toEqual({
+        pageInfo: { hasNextPage: false, endCursor: null },
+        nodes: [{ title: 'First' }, { title: 'Second' }, { title: 'Third' }, { title: 'Fourth' }]
+      })
+      expect(requests.map(request => request.variables)).toEqual([
+        { id: 'gid://shopify/Order/1', first: 250, after: 'line-2' },
+        { id: 'gid://shopify/Order/1', first: 250, after: 'line-3' }
+      ])
+    })
+
+    it('leaves complete connections alone', async () => {
+      const requests = mockGraphQL(() => ({ data: {} }))
+
+      const product = { id: 'gid://shopify/Product/1', variants: connection([{ legacyResourceId: '10' }]) }
+      await completeNestedConnections(createClient(), 'products', [product])
+
+      expect(requests).toHaveLength(0)
+      expect(product.variants.nodes).toHaveLength(1)
+    })
+  })
+})
+
+describe('REST mappers', () => {
+  const orderNode = {
+    id: 'gid://shopify/Order/450789469',
+    legacyResourceId: '450789469',
+    name: '#1001',
+    email: 'bob.norman@example.com',
+    currencyCode: 'USD',
+    presentmentCurrencyCode: 'EUR',
+    displayFinancialStatus: 'PARTIALLY_REFUNDED',
+    displayFulfillmentStatus: 'FULFILLED',
+    tags: ['vip', 'wholesale'],
+    note: null,
+    processedAt: '2024-03-01T10:00:00Z',
+    cancelledAt: null,
+    createdAt: '2024-03-01T10:00:05Z',
+    updatedAt: '2024-03-02T08:00:00Z',
+    totalPriceSet: { shopMoney: { amount: '59.00' }, presentmentMoney: { amount: '54.00' } },
+    subtotalPriceSet: money('50.00'),
+    totalTaxSet: money('4.00'),
+    totalDiscountsSet: money('5.00'),
+    totalShippingPriceSet: money('10.00'),
+    discountCodes: ['SPRING'],
+    customer: { legacyResourceId: '207119551' },
+    lineItems: connection([{
+      title: 'IPod Nano',
+      quantity: 2,
+      originalUnitPriceSet: money('25.00'),
+      totalDiscountSet: money('5.00'),
+      variant: { legacyResourceId: '39072856' },
+      product: { legacyResourceId: '632910392' }
+    }]),
+    fulfillments: [{
+      legacyResourceId: '255858046',
+      status: 'SUCCESS',
+      displayStatus: 'DELIVERED',
+      createdAt: '2024-03-01T12:00:00Z',
+      updatedAt: '2024-03-01T12:00:00Z',
+      trackingInfo: [{ company: 'UPS', number: '1Z2345' }]
+    }],
+    refunds: [{
+      id: 'gid://shopify/Refund/509562969',
+      legacyResourceId: '509562969',
+      note: 'Damaged',
+      createdAt: '2024-03-02T08:00:00Z',
+      totalRefundedSet: money('27.00'),
+      refundLineItems: connection([{
+        quantity: 1,
+        restockType: 'RETURN',
+        subtotalSet: money('25.00'),
+        totalTaxSet: money('2.00'),
+        lineItem: { id: 'gid://shopify/LineItem/466157049', product: { legacyResourceId: '632910392' } }
+      }])
+    }]
+  }
+
+  it('maps an order node to the REST payload', () => {
+    const order = toRestOrder(orderNode)
+
+    expect(order).toMatchObject({
+      id: '450789469',
+      order_number: '1001',
+      total_price: '59.00',
+      total_price_set: { shop_money: { amount: '59.00' }, presentment_money: { amount: '54.00' } },
+      currency: 'USD',
+      presentment_currency: 'EUR',
+      financial_status: 'partially_refunded',
+      fulfillment_status: 'fulfilled',
+      tags: 'vip, wholesale',
+      customer: { id: '207119551' },
+      discount_codes: [{ code: 'SPRING', amount: '5.00' }]
+    })
+    expect(order.line_items).toEqual([{
+      title: 'IPod Nano',
+      quantity: 2,
+      price: '25.00',
+      total_discount: '5.00',
+      variant_id: '39072856',
+      product_id: '632910392'
+    }])
+    expect(order.fulfillments).toEqual([{
+      id: '255858046',
+      status: 'success',
+      shipment_status: 'delivered',
+      tracking_company: 'UPS',
+      tracking_number: '1Z2345',
+      created_at: '2024-03-01T12:00:00Z',
+      updated_at: '2024-03-01T12:00:00Z'
+    }])
+    expect(order.refunds).toEqual([{
+      id: '509562969',
+      note: 'Damaged',
+      processed_at: '2024-03-02T08:00:00Z',
+      transactions: [{ kind: 'refund', status: 'success', amount: '27.00' }],
+      refund_line_items: [{
+        line_item_id: '466157049',
+        line_item: { product_id: '632910392' },
+        quantity: 1,
+        subtotal: '25.00',
+        total_tax: '2.00',
+        restock_type: 'return'
+      }]
+    }])
+  })
+
+  it('leaves out partial line item and refund lists', () => {
+    const order = toRestOrder({
+      ...orderNode,
+      lineItems: { ...orderNode.lineItems, pageInfo: { hasNextPage: true, endCursor: 'line-1' } },
+      refunds: [{
+        ...orderNode.refunds[0],
+        refundLineItems: { ...orderNode.refunds[0].refundLineItems, pageInfo: { hasNextPage: true, endCursor: 'refund-line-1' } }
+      }]
+    })
+
+    expect(order.line_items).toBeUndefined()
+    expect(order.refunds).toBeUndefined()
+    expect(order.fulfillments).toHaveLength(1)
+  })
+
+  it('maps a product node and flags partial variant lists', () => {
+    const node = {
+      legacyResourceId: '632910392',
+      title: 'IPod Nano',
+      handle: 'ipod-nano',
+      descriptionHtml: '<p>Sleek</p>',
+      vendor: 'Apple',
+      productType: 'Cult Products',
+      tags: ['Emotive'],
+      status: 'ACTIVE',
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-02-01T00:00:00Z',
+      images: { nodes: [{ id: 'gid://shopify/ProductImage/1', url: 'https://cdn/ipod.png', altText: null }] },
+      variants: connection([{
+        legacyResourceId: '39072856',
+        title: 'Pink',
+        sku: 'IPOD2008PINK',
+        price: '199.00',
+        compareAtPrice: null,
+        inventoryQuantity: 10,
+        position: 1,
+        selectedOptions: [{ value: 'Pink' }],
+        inventoryItem: { legacyResourceId: '808950810' }
+      }], 'variant-1')
+    }
+
+    const product = toRestProduct(node)
+
+    expect(product).toMatchObject({ id: '632910392', status: 'active', tags: 'Emotive', variants_truncated: true })
+    expect(product.images).toEqual([{ id: 'gid://shopify/ProductImage/1', src: 'https://cdn/ipod.png', alt: null }])
+    expect(product.variants).toEqual([{
+      id: '39072856',
+      title: 'Pink',
+      sku: 'IPOD2008PINK',
+      price: '199.00',
+      compare_at_price: null,
+      inventory_quantity: 10,
+      inventory_item_id: '808950810',
+      position: 1,
+      option1: 'Pink',
+      option2: undefined,
+      option3: undefined
+    }])
+    expect(toRestProduct({ ...node, variants: connection(node.variants.nodes) }).variants_truncated).toBe(false)
+  })
+
+  it('maps a customer node', () => {
+    expect(toRestCustomer({
+      legacyResourceId: '207119551',
+      email: 'bob.norman@example.com',
+      firstName: 'Bob',
+      lastName: 'Norman',
+      phone: null,
+      numberOfOrders: '3',
+      amountSpent: { amount: '199.65' },
+      tags: ['vip'],
+      emailMarketingConsent: { marketingState: 'SUBSCRIBED' },
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-02-01T00:00:00Z'
+    })).toEqual({
+      id: '207119551',
+      email: 'bob.norman@example.com',
+      first_name: 'Bob',
+      last_name: 'Norman',
+      phone: null,
+      total_spent: '199.65',
+      orders_count: 3,
+      tags: 'vip',
+      accepts_marketing: true,
+      created_at: '2024-01-01T00:00:00Z',
+      updated_at: '2024-02-01T00:00:00Z'
+    })
+  })
+})
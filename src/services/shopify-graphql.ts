@@ -0,0 +1,533 @@
+import { SyncResourceType } from '@/types'
+
+export interface GraphQLThrottleStatus {
+  maximumAvailable: number
+  currentlyAvailable: number
+  restoreRate: number
+}
+
+export interface GraphQLQueryCost {
+  requestedQueryCost: number
+  actualQueryCost: number | null
+  throttleStatus: GraphQLThrottleStatus
+}
+
+export interface GraphQLConnection<TNode> {
+  pageInfo: {
+    hasNextPage: boolean
+    endCursor: string | null
+  }
+  nodes: TNode[]
+}
+
+export interface GraphQLPage<TNode> {
+  nodes: TNode[]
+  endCursor: string | null
+  hasNextPage: boolean
+}
+
+export class ShopifyGraphQLError extends Error {
+  constructor(message: string, public errors: any[] = []) {
+    super(message)
+    this.name = 'ShopifyGraphQLError'
+  }
+}
+
+const MAX_THROTTLE_RETRIES = 5
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+export class ShopifyGraphQLClient {
+  private shopName: string
+  private accessToken: string
+  private apiVersion: string
+
+  // Cost bookkeeping from the extensions block of every response
+  lastCost: GraphQLQueryCost | null = null
+  totalActualCost = 0
+  // When lastCost was reported; the bucket keeps restoring from then on
+  private lastCostAt = 0
+
+  constructor(shopName: string, accessToken: string, apiVersion?: string) {
+    this.shopName = shopName
+    this.accessToken = accessToken
+    this.apiVersion = apiVersion || process.env.SHOPIFY_API_VERSION || '2024-01'
+  }
+
+  async query<T = any>(query: string, variables: Record<string, any> = {}): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      await this.waitForBudget()
+
+      const response = await fetch(`https://${this.shopName}/admin/api/${this.apiVersion}/graphql.json`, {
+        method: 'POST',
+        headers: {
+          'X-Shopify-Access-Token': this.accessToken,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ query, variables }),
+        // 25 seconds, well under Vercel's 30s limit
+        signal: AbortSignal.timeout(25000)
+      })
+
+      if (!response.ok) {
+        const errorText = await response.text()
+        console.error(`[SHOPIFY GRAPHQL ERROR] ${response.status} ${response.statusText}:`, errorText)
+        throw new Error(`Shopify GraphQL error: ${response.status} ${response.statusText} - ${errorText}`)
+      }
+
+      const body = await response.json()
+      this.recordCost(body.extensions?.cost)
+
+      const errors: any[] = body.errors || []
+      const throttled = errors.some(e => e.extensions?.code === 'THROTTLED')
+
+      if (throttled && attempt < MAX_THROTTLE_RETRIES) {
+        // Without cost details there is nothing to time the retry by
+        const delay = this.getThrottleDelay() || 1000
+        console.warn(`[SHOPIFY GRAPHQL] Throttled, retrying in ${delay}ms (attempt ${attempt})`)
+        await sleep(delay)
+        continue
+      }
+
+      if (errors.length > 0) {
+        console.error('[SHOPIFY GRAPHQL ERROR]', errors)
+        throw new ShopifyGraphQLError(errors.map(e => e.message).join('; '), errors)
+      }
+
+      return body.data as T
+    }
+  }
+
+  // Runs a connection query for a single page; the query must accept $first and $after
+  async fetchPage<TNode>(
+    query: string,
+    variables: Record<string, any>,
+    getConnection: (data: any) => GraphQLConnection<TNode>
+  ): Promise<GraphQLPage<TNode>> {
+    const data = await this.query(query, variables)
+    const connection = getConnection(data)
+
+    return {
+      nodes: connection.nodes,
+      endCursor: connection.pageInfo.endCursor,
+      hasNextPage: connection.pageInfo.hasNextPage
+    }
+  }
+
+  async *paginate<TNode>(
+    query: string,
+    variables: Record<string, any>,
+    getConnection: (data: any) => GraphQLConnection<TNode>
+  ): AsyncGenerator<TNode[]> {
+    let after: string | null = variables.after ?? null
+
+    while (true) {
+      const page = await this.fetchPage(query, { ...variables, after }, getConnection)
+      yield page.nodes
+
+      if (!page.hasNextPage) return
+      after = page.endCursor
+    }
+  }
+
+  private recordCost(cost?: GraphQLQueryCost) {
+    if (!cost) return
+
+    this.lastCost = cost
+    this.lastCostAt = Date.now()
+    this.totalActualCost += cost.actualQueryCost ?? 0
+    console.log('[SHOPIFY GRAPHQL] Query cost:', {
+      requested: cost.requestedQueryCost,
+      actual: cost.actualQueryCost,
+      available: cost.throttleStatus.currentlyAvailable,
+      total: this.totalActualCost
+    })
+  }
+
+  // Time until the bucket has restored enough points for another query of the last size,
+  // counting what it has restored since that cost was reported
+  private getThrottleDelay(): number {
+    if (!this.lastCost) return 0
+
+    const { requestedQueryCost, throttleStatus } = this.lastCost
+    const restored = ((Date.now() - this.lastCostAt) / 1000) * throttleStatus.restoreRate
+    const available = Math.min(throttleStatus.maximumAvailable, throttleStatus.currentlyAvailable + restored)
+    const deficit = requestedQueryCost - available
+    if (deficit <= 0) return 0
+
+    return Math.ceil((deficit / throttleStatus.restoreRate) * 1000)
+  }
+
+  // Avoid sending a query we already know will be throttled
+  private async waitForBudget() {
+    const delay = this.getThrottleDelay()
+    if (delay > 0) {
+      console.log(`[SHOPIFY GRAPHQL] Waiting ${delay}ms for query budget to restore`)
+      await sleep(delay)
+    }
+  }
+}
+
+// Sync queries - nodes are mapped back to the REST payload shape the upserts expect
+
+// Nested connections multiply query cost, so page sizes keep each query under the
+// 1000 point single-query limit
+export const SYNC_PAGE_SIZES: Record<SyncResourceType, number> = {
+  customers: 100,
+  orders: 10,
+  products: 10
+}
+
+const money = `shopMoney { amount }`
+
+// Nested connections are fetched in part with the sync page; whatever does not fit is
+// paged in afterwards through the follow-up queries below, so these field lists are shared
+const LINE_ITEM_FIELDS = `
+  title
+  quantity
+  originalUnitPriceSet { ${money} }
+  totalDiscountSet { ${money} }
+  variant { legacyResourceId }
+  product { legacyResourceId }
+`
+
+const REFUND_LINE_ITEM_FIELDS = `
+  quantity
+  restockType
+  subtotalSet { ${money} }
+  totalTaxSet { ${money} }
+  lineItem { id product { legacyResourceId } }
+`
+
+const VARIANT_FIELDS = `
+  legacyResourceId
+  title
+  sku
+  price
+  compareAtPrice
+  inventoryQuantity
+  position
+  selectedOptions { value }
+  inventoryItem { legacyResourceId }
+`
+
+export const SYNC_QUERIES: Record<SyncResourceType, string> = {
+  customers: `
+    query SyncCustomers($first: Int!, $after: String, $query: String) {
+      customers(first: $first, after: $after, query: $query, sortKey: UPDATED_AT) {
+        pageInfo { hasNextPage endCursor }
+        nodes {
+          legacyResourceId
+          email
+          firstName
+          lastName
+          phone
+          numberOfOrders
+          amountSpent { amount }
+          tags
+          emailMarketingConsent { marketingState }
+          createdAt
+          updatedAt
+        }
+      }
+    }
+  `,
+  orders: `
+    query SyncOrders($first: Int!, $after: String, $query: String) {
+      orders(first: $first, after: $after, query: $query, sortKey: UPDATED_AT) {
+        pageInfo { hasNextPage endCursor }
+        nodes {
+          id
+          legacyResourceId
+          name
+          email
+          currencyCode
+          presentmentCurrencyCode
+          displayFinancialStatus
+          displayFulfillmentStatus
+          tags
+          note
+          processedAt
+          cancelledAt
+          createdAt
+          updatedAt
+          totalPriceSet { ${money} presentmentMoney { amount } }
+          subtotalPriceSet { ${money} }
+          totalTaxSet { ${money} }
+          totalDiscountsSet { ${money} }
+          totalShippingPriceSet { ${money} }
+          discountCodes
+          customer { legacyResourceId }
+          lineItems(first: 50) {
+            pageInfo { hasNextPage endCursor }
+            nodes { ${LINE_ITEM_FIELDS} }
+          }
+          # A list rather than a connection: without a first argument every fulfillment comes back
+          fulfillments {
+            legacyResourceId
+            status
+            displayStatus
+            createdAt
+            updatedAt
+            trackingInfo(first: 1) { company number }
+          }
+          # A list rather than a connection: without a first argument every refund comes back
+          refunds {
+            id
+            legacyResourceId
+            note
+            createdAt
+            totalRefundedSet { ${money} }
+            refundLineItems(first: 10) {
+              pageInfo { hasNextPage endCursor }
+              nodes { ${REFUND_LINE_ITEM_FIELDS} }
+            }
+          }
+        }
+      }
+    }
+  `,
+  products: `
+    query SyncProducts($first: Int!, $after: String, $query: String) {
+      products(first: $first, after: $after, query: $query, sortKey: UPDATED_AT) {
+        pageInfo { hasNextPage endCursor }
+        nodes {
+          id
+          legacyResourceId
+          title
+          handle
+          descriptionHtml
+          vendor
+          productType
+          tags
+          status
+          createdAt
+          updatedAt
+          images(first: 10) {
+            nodes { id url altText }
+          }
+          variants(first: 50) {
+            pageInfo { hasNextPage endCursor }
+            nodes { ${VARIANT_FIELDS} }
+          }
+        }
+      }
+    }
+  `
+}
+
+const NESTED_PAGE_SIZE = 250
+
+const NESTED_QUERIES = {
+  lineItems: `
+    query OrderLineItems($id: ID!, $first: Int!, $after: String) {
+      order(id: $id) {
+        lineItems(first: $first, after: $after) {
+          pageInfo { hasNextPage endCursor }
+          nodes { ${LINE_ITEM_FIELDS} }
+        }
+      }
+    }
+  `,
+  refundLineItems: `
+    query RefundLineItems($id: ID!, $first: Int!, $after: String) {
+      refund(id: $id) {
+        refundLineItems(first: $first, after: $after) {
+          pageInfo { hasNextPage endCursor }
+          nodes { ${REFUND_LINE_ITEM_FIELDS} }
+        }
+      }
+    }
+  `,
+  variants: `
+    query ProductVariants($id: ID!, $first: Int!, $after: String) {
+      product(id: $id) {
+        variants(first: $first, after: $after) {
+          pageInfo { hasNextPage endCursor }
+          nodes { ${VARIANT_FIELDS} }
+        }
+      }
+    }
+  `
+}
+
+// Pages the rest of a nested connection in after the part that came with its parent
+async function completeConnection<TNode>(
+  client: ShopifyGraphQLClient,
+  query: string,
+  id: string,
+  connection: GraphQLConnection<TNode> | undefined,
+  getConnection: (data: any) => GraphQLConnection<TNode>
+): Promise<GraphQLConnection<TNode> | undefined> {
+  if (!connection?.pageInfo?.hasNextPage) return connection
+
+  const nodes = [...connection.nodes]
+  const pages = client.paginate(query, { id, first: NESTED_PAGE_SIZE, after: connection.pageInfo.endCursor }, getConnection)
+  for await (const page of pages) {
+    nodes.push(...page)
+  }
+  return { pageInfo: { hasNextPage: false, endCursor: null }, nodes }
+}
+
+// Fills in nested lists past the first page of their connection, so the upserts, which
+// replace these wholesale, always see the complete list
+export async function completeNestedConnections(
+  client: ShopifyGraphQLClient,
+  resource: SyncResourceType,
+  nodes: any[]
+) {
+  for (const node of nodes) {
+    if (resource === 'orders') {
+      node.lineItems = await completeConnection(
+        client, NESTED_QUERIES.lineItems, node.id, node.lineItems, data => data.order.lineItems
+      )
+      for (const refund of node.refunds || []) {
+        refund.refundLineItems = await completeConnection(
+          client, NESTED_QUERIES.refundLineItems, refund.id, refund.refundLineItems, data => data.refund.refundLineItems
+        )
+      }
+    } else if (resource === 'products') {
+      node.variants = await completeConnection(
+        client, NESTED_QUERIES.variants, node.id, node.variants, data => data.product.variants
+      )
+    }
+  }
+  return nodes
+}
+
+// A connection that still has pages left only holds part of the list
+const isTruncated = (connection: any) => !!connection?.pageInfo?.hasNextPage
+
+export function toRestCustomer(node: any) {
+  return {
+    id: node.legacyResourceId,
+    email: node.email,
+    first_name: node.firstName,
+    last_name: node.lastName,
+    phone: node.phone,
+    total_spent: node.amountSpent?.amount,
+    orders_count: Number(node.numberOfOrders || 0),
+    tags: (node.tags || []).join(', '),
+    accepts_marketing: node.emailMarketingConsent?.marketingState === 'SUBSCRIBED',
+    created_at: node.createdAt,
+    updated_at: node.updatedAt
+  }
+}
+
+export function toRestOrder(node: any) {
+  // Refunds with only some of their lines would understate refunded units
+  const partialRefunds = (node.refunds || []).some((refund: any) => isTruncated(refund.refundLineItems))
+
+  return {
+    id: node.legacyResourceId,
+    name: node.name,
+    order_number: node.name?.replace(/^#/, ''),
+    email: node.email,
+    total_price: node.totalPriceSet?.shopMoney.amount,
+    total_price_set: {
+      shop_money: { amount: node.totalPriceSet?.shopMoney.amount },
+      presentment_money: { amount: node.totalPriceSet?.presentmentMoney?.amount }
+    },
+    subtotal_price: node.subtotalPriceSet?.shopMoney.amount,
+    total_tax: node.totalTaxSet?.shopMoney.amount,
+    total_discounts: node.totalDiscountsSet?.shopMoney.amount,
+    total_shipping_price_set: {
+      shop_money: { amount: node.totalShippingPriceSet?.shopMoney.amount }
+    },
+    currency: node.currencyCode,
+    presentment_currency: node.presentmentCurrencyCode,
+    financial_status: node.displayFinancialStatus?.toLowerCase(),
+    fulfillment_status: node.displayFulfillmentStatus?.toLowerCase(),
+    tags: (node.tags || []).join(', '),
+    note: node.note,
+    processed_at: node.processedAt,
+    cancelled_at: node.cancelledAt,
+    created_at: node.createdAt,
+    updated_at: node.updatedAt,
+    customer: node.customer ? { id: node.customer.legacyResourceId } : null,
+    // Only the codes are exposed here; a lone code gets the whole order discount
+    discount_codes: (node.discountCodes || []).map((code: string) => ({
+      code,
+      amount: node.discountCodes.length === 1 ? node.totalDiscountsSet?.shopMoney.amount : undefined
+    })),
+    // Partial lists are left out, so the upserts keep what is stored instead of replacing
+    // it with a truncated copy
+    line_items: isTruncated(node.lineItems) ? undefined : (node.lineItems?.nodes || []).map((item: any) => ({
+      title: item.title,
+      quantity: item.quantity,
+      price: item.originalUnitPriceSet?.shopMoney.amount,
+      total_discount: item.totalDiscountSet?.shopMoney.amount,
+      variant_id: item.variant?.legacyResourceId,
+      product_id: item.product?.legacyResourceId
+    })),
+    fulfillments: (node.fulfillments || []).map((fulfillment: any) => ({
+      id: fulfillment.legacyResourceId,
+      status: fulfillment.status?.toLowerCase(),
+      shipment_status: fulfillment.displayStatus?.toLowerCase(),
+      tracking_company: fulfillment.trackingInfo?.[0]?.company,
+      tracking_number: fulfillment.trackingInfo?.[0]?.number,
+      created_at: fulfillment.createdAt,
+      updated_at: fulfillment.updatedAt
+    })),
+    refunds: partialRefunds ? undefined : (node.refunds || []).map((refund: any) => ({
+      id: refund.legacyResourceId,
+      note: refund.note,
+      processed_at: refund.createdAt,
+      // GraphQL only exposes the refunded total, so it stands in for the transactions
+      transactions: [{
+        kind: 'refund',
+        status: 'success',
+        amount: refund.totalRefundedSet?.shopMoney.amount
+      }],
+      refund_line_items: (refund.refundLineItems?.nodes || []).map((item: any) => ({
+        line_item_id: item.lineItem?.id?.split('/').pop(),
+        line_item: { product_id: item.lineItem?.product?.legacyResourceId },
+        quantity: item.quantity,
+        subtotal: item.subtotalSet?.shopMoney.amount,
+        total_tax: item.totalTaxSet?.shopMoney.amount,
+        restock_type: item.restockType?.toLowerCase()
+      }))
+    }))
+  }
+}
+
+export function toRestProduct(node: any) {
+  return {
+    id: node.legacyResourceId,
+    title: node.title,
+    handle: node.handle,
+    body_html: node.descriptionHtml,
+    vendor: node.vendor,
+    product_type: node.productType,
+    tags: (node.tags || []).join(', '),
+    status: node.status?.toLowerCase(),
+    created_at: node.createdAt,
+    updated_at: node.updatedAt,
+    images: (node.images?.nodes || []).map((image: any) => ({
+      id: image.id,
+      src: image.url,
+      alt: image.altText
+    })),
+    // Variants missing from a partial list must not be pruned as if deleted in Shopify
+    variants_truncated: isTruncated(node.variants),
+    variants: (node.variants?.nodes || []).map((variant: any) => ({
+      id: variant.legacyResourceId,
+      title: variant.title,
+      sku: variant.sku,
+      price: variant.price,
+      compare_at_price: variant.compareAtPrice,
+      inventory_quantity: variant.inventoryQuantity,
+      inventory_item_id: variant.inventoryItem?.legacyResourceId,
+      position: variant.position,
+      option1: variant.selectedOptions?.[0]?.value,
+      option2: variant.selectedOptions?.[1]?.value,
+      option3: variant.selectedOptions?.[2]?.value
+    }))
+  }
+}
+
+export const REST_MAPPERS: Record<SyncResourceType, (node: any) => any> = {
+  customers: toRestCustomer,
+  orders: toRestOrder,
+  products: toRestProduct
+}
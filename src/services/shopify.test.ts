@@ -0,0 +1,182 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    syncCheckpoint: { update: vi.fn().mockResolvedValue({}) }
+  }
+}))
+vi.mock('@/lib/analytics-rollups', () => ({
+  rebuildDailyRollups: vi.fn(),
+  refreshDailyRollups: vi.fn()
+}))
+
+import { prisma } from '@/lib/db'
+import { ShopifyService, parseNextPageInfo } from '@/services/shopify'
+
+const SHOP = 'test-shop.myshopify.com'
+const pageUrl = (pageInfo: string) =>
+  `https://${SHOP}/admin/api/2024-01/customers.json?limit=2&page_info=${pageInfo}`
+
+// Link headers as Shopify sends them on the first, a middle and the last page
+const LINK_FIRST_PAGE = `<${pageUrl('cursor-2')}>; rel="next"`
+const LINK_MIDDLE_PAGE = `<${pageUrl('cursor-1')}>; rel="previous", <${pageUrl('cursor-3')}>; rel="next"`
+const LINK_LAST_PAGE = `<${pageUrl('cursor-2')}>; rel="previous"`
+
+// Serves customers.json pages keyed by page_info ('' for the first page) and records
+// every URL it was asked for
+function mockShopify(pages: Record<string, { customers: Array<{ id: number }>; link?: string }>) {
+  const requests: URL[] = []
+  vi.stubGlobal('fetch', vi.fn(async (input: string) => {
+    const url = new URL(input)
+    requests.push(url)
+
+    const page = pages[url.searchParams.get('page_info') || '']
+    if (!page) {
+      return new Response('Not Found', { status: 404, statusText: 'Not Found' })
+    }
+    return new Response(JSON.stringify({ customers: page.customers }), {
+      status: 200,
+      headers: page.link ? { link: page.link } : {}
+    })
+  }))
+  return requests
+}
+
+function createService() {
+  return new ShopifyService({ domain: SHOP, accessToken: 'test-token' }, 'tenant-1', { api: 'rest' })
+}
+
+// Collects what streamPages hands to its page callback
+async function streamCustomers(
+  service: ShopifyService,
+  params: Record<string, unknown>,
+  startPageInfo: string | null = null
+) {
+  const pages: Array<{ ids: number[]; nextPageInfo: string | null }> = []
+  const complete = await service['streamPages']('customers', params, startPageInfo, async (records, nextPageInfo) => {
+    pages.push({ ids: records.map(record => record.id), nextPageInfo })
+  })
+  return { complete, pages }
+}
+
+describe('parseNextPageInfo', () => {
+  it('returns null without a Link header', () => {
+    expect(parseNextPageInfo(null)).toBeNull()
+    expect(parseNextPageInfo('')).toBeNull()
+  })
+
+  it('reads the cursor of the next page', () => {
+    expect(parseNextPageInfo(LINK_FIRST_PAGE)).toBe('cursor-2')
+  })
+
+  it('picks the next link when a previous link comes first', () => {
+    expect(parseNextPageInfo(LINK_MIDDLE_PAGE)).toBe('cursor-3')
+  })
+
+  it('returns null on the last page', () => {
+    expect(parseNextPageInfo(LINK_LAST_PAGE)).toBeNull()
+  })
+
+  it('accepts an unquoted rel', () => {
+    expect(parseNextPageInfo(`<${pageUrl('cursor-2')}>; rel=next`)).toBe('cursor-2')
+  })
+
+  it('returns null for headers without a next link it can read', () => {
+    expect(parseNextPageInfo(`${pageUrl('cursor-2')}; rel="next"`)).toBeNull()
+    expect(parseNextPageInfo(`<${pageUrl('cursor-2')}>`)).toBeNull()
+    expect(parseNextPageInfo(`<https://${SHOP}/admin/api/2024-01/customers.json?limit=2>; rel="next"`)).toBeNull()
+  })
+
+  it('throws when the next link is not a URL', () => {
+    expect(() => parseNextPageInfo('<not a url>; rel="next"')).toThrow()
+  })
+})
+
+describe('ShopifyService.streamPages', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+    vi.mocked(prisma.syncCheckpoint.update).mockClear()
+  })
+
+  it('follows next links until the last page', async () => {
+    const requests = mockShopify({
+      '': { customers: [{ id: 1 }, { id: 2 }], link: LINK_FIRST_PAGE },
+      'cursor-2': { customers: [{ id: 3 }, { id: 4 }], link: LINK_MIDDLE_PAGE },
+      'cursor-3': { customers: [{ id: 5 }], link: LINK_LAST_PAGE }
+    })
+
+    const { complete, pages } = await streamCustomers(createService(), {
+      limit: 2,
+      updated_at_min: '2024-01-01T00:00:00.000Z'
+    })
+
+    expect(complete).toBe(true)
+    expect(pages).toEqual([
+      { ids: [1, 2], nextPageInfo: 'cursor-2' },
+      { ids: [3, 4], nextPageInfo: 'cursor-3' },
+      { ids: [5], nextPageInfo: null }
+    ])
+
+    // Filters go on the first request only; later pages carry just the cursor
+    expect(requests[0].searchParams.get('updated_at_min')).toBe('2024-01-01T00:00:00.000Z')
+    for (const url of requests.slice(1)) {
+      expect([...url.searchParams.keys()].sort()).toEqual(['limit', 'page_info'])
+    }
+  })
+
+  it('stops after a single page without a next link', async () => {
+    const requests = mockShopify({
+      '': { customers: [{ id: 1 }] }
+    })
+
+    const { complete, pages } = await streamCustomers(createService(), { limit: 2 })
+
+    expect(complete).toBe(true)
+    expect(pages).toEqual([{ ids: [1], nextPageInfo: null }])
+    expect(requests).toHaveLength(1)
+  })
+
+  it('resumes from a saved cursor', async () => {
+    const requests = mockShopify({
+      'cursor-3': { customers: [{ id: 5 }], link: LINK_LAST_PAGE }
+    })
+
+    const { complete, pages } = await streamCustomers(createService(), { limit: 2 }, 'cursor-3')
+
+    expect(complete).toBe(true)
+    expect(pages).toEqual([{ ids: [5], nextPageInfo: null }])
+    expect(requests[0].searchParams.get('page_info')).toBe('cursor-3')
+  })
+
+  it('reports partial data when a next link cannot be parsed', async () => {
+    mockShopify({
+      '': { customers: [{ id: 1 }, { id: 2 }], link: LINK_FIRST_PAGE },
+      'cursor-2': { customers: [{ id: 3 }, { id: 4 }], link: '<not a url>; rel="next"' }
+    })
+
+    const { complete, pages } = await streamCustomers(createService(), { limit: 2 })
+
+    expect(complete).toBe(false)
+    expect(pages).toEqual([{ ids: [1, 2], nextPageInfo: 'cursor-2' }])
+  })
+
+  it('drops a saved cursor Shopify no longer accepts', async () => {
+    mockShopify({})
+
+    const { complete, pages } = await streamCustomers(createService(), { limit: 2 }, 'expired-cursor')
+
+    expect(complete).toBe(false)
+    expect(pages).toEqual([])
+    expect(prisma.syncCheckpoint.update).toHaveBeenCalledWith({
+      where: { tenantId_resourceType: { tenantId: 'tenant-1', resourceType: 'customers' } },
+      data: { cursor: null, cursorApi: null }
+    })
+  })
+})
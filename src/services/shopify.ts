@@ -1,20 +1,156 @@
 import { prisma } from '@/lib/db'
-import { ShopifyConfig } from '@/types'
+import { BackfillProgress, ShopifyConfig, ShopifyServiceOptions, ShopifyWebhookSubscription, SyncResourceType, SyncRunResult } from '@/types'
+import { ShopifyWebhookTopic } from '@/lib/shopify-webhooks'
+import { shopifyRateLimiter } from '@/lib/rate-limiter'
+import { rebuildDailyRollups, refreshDailyRollups } from '@/lib/analytics-rollups'
+import { getTenantTimezone } from '@/lib/timezone'
+import {
+  REST_MAPPERS,
+  SYNC_PAGE_SIZES,
+  SYNC_QUERIES,
+  ShopifyGraphQLClient,
+  completeNestedConnections
+} from '@/services/shopify-graphql'
+import {
+  ACTIVE_BULK_STATUSES,
+  BACKFILL_RESOURCES,
+  BULK_QUERIES,
+  getBackfillProgress,
+  getBulkOperation,
+  readBulkRecords,
+  runBulkQuery
+} from '@/services/shopify-bulk'
+import crypto from 'crypto'
+
+interface ShopifyPage {
+  data: any
+  nextPageInfo: string | null
+}
+
+// Orders older than this are invisible without the read_all_orders scope
+const RECONCILE_ORDER_WINDOW_DAYS = 60
+// Below this share of count.json, an id listing is treated as incomplete
+const RECONCILE_MIN_LISTED_SHARE = 0.9
+
+// Shopify REST paginates with opaque cursors in the Link header, e.g.
+// <https://shop/admin/api/2024-01/orders.json?limit=250&page_info=abc>; rel="next"
+export function parseNextPageInfo(linkHeader: string | null): string | null {
+  if (!linkHeader) return null
+
+  for (const part of linkHeader.split(',')) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="?next"?/)
+    if (match) {
+      return new URL(match[1]).searchParams.get('page_info')
+    }
+  }
+
+  return null
+}
+
+// Shopify's own timestamps, kept apart from our row createdAt/updatedAt
+function shopifyTimestamp(value: string | null | undefined): Date | null {
+  return value ? new Date(value) : null
+}
+
+// What actually went back to the customer: successful refund transactions, or the
+// refunded line items plus adjustments when the payload carries no transactions
+function refundAmount(refund: any): number {
+  const transactions = (refund.transactions || []).filter(
+    (t: any) => t.kind === 'refund' && t.status === 'success'
+  )
+  if (transactions.length > 0) {
+    return transactions.reduce((sum: number, t: any) => sum + parseFloat(t.amount || '0'), 0)
+  }
+
+  const items = (refund.refund_line_items || []).reduce(
+    (sum: number, ri: any) => sum + parseFloat(ri.subtotal || '0') + parseFloat(ri.total_tax || '0'), 0
+  )
+  // Adjustments are recorded as negative amounts (e.g. refunded shipping)
+  const adjustments = (refund.order_adjustments || []).reduce(
+    (sum: number, adj: any) => sum - parseFloat(adj.amount || '0') - parseFloat(adj.tax_amount || '0'), 0
+  )
+  return items + adjustments
+}
+
+// Shipping charged on the order, before shipping discounts - REST and mapped GraphQL
+// payloads carry the set; older payloads only have the shipping lines
+function orderShipping(shopifyOrder: any): number | null {
+  const amount = shopifyOrder.total_shipping_price_set?.shop_money?.amount
+  if (amount != null) return parseFloat(amount)
+  if (!shopifyOrder.shipping_lines) return null
+  return shopifyOrder.shipping_lines.reduce((sum: number, line: any) => sum + parseFloat(line.price || '0'), 0)
+}
+
+// One row per discount application, with the amount it took off taken from the line
+// and shipping allocations. Payloads with only discount_codes fall back to those, and
+// payloads carrying neither return null so stored discounts are left alone.
+function orderDiscounts(shopifyOrder: any) {
+  const codes: any[] = shopifyOrder.discount_codes || []
+  const applications: any[] | undefined = shopifyOrder.discount_applications
+
+  if (applications) {
+    const allocated = new Map<number, number>()
+    for (const line of [...(shopifyOrder.line_items || []), ...(shopifyOrder.shipping_lines || [])]) {
+      for (const allocation of line.discount_allocations || []) {
+        const index = allocation.discount_application_index
+        allocated.set(index, (allocated.get(index) || 0) + parseFloat(allocation.amount || '0'))
+      }
+    }
+
+    return applications.map((application, index) => {
+      const code = application.type === 'discount_code' ? application.code : null
+      return {
+        code,
+        title: application.title || application.description || null,
+        kind: application.type,
+        valueType: application.value_type,
+        value: application.value != null ? parseFloat(application.value) : null,
+        amount: allocated.get(index)
+          ?? parseFloat(codes.find(c => c.code === code)?.amount || '0')
+      }
+    })
+  }
+
+  if (shopifyOrder.discount_codes) {
+    return codes.map(discountCode => ({
+      code: discountCode.code,
+      title: null,
+      kind: 'discount_code',
+      valueType: discountCode.type,
+      value: null,
+      amount: parseFloat(discountCode.amount || '0')
+    }))
+  }
+
+  return null
+}
 
 export class ShopifyService {
   private shopName: string
   private accessToken: string
   private tenantId: string
   private apiVersion: string
+  private deadline?: number
+  private api: 'rest' | 'graphql'
+  private graphql: ShopifyGraphQLClient
+  // When the orders written since the last rollup refresh were placed
+  private touchedOrderDates: Date[] = []
 
-  constructor(config: ShopifyConfig, tenantId: string) {
+  constructor(config: ShopifyConfig, tenantId: string, options: ShopifyServiceOptions = {}) {
     this.shopName = config.domain
     this.accessToken = config.accessToken
     this.tenantId = tenantId
     this.apiVersion = process.env.SHOPIFY_API_VERSION || '2024-01'
+    this.deadline = options.deadline
+    this.api = options.api || (process.env.SHOPIFY_SYNC_API === 'graphql' ? 'graphql' : 'rest')
+    this.graphql = new ShopifyGraphQLClient(this.shopName, this.accessToken, this.apiVersion)
   }
 
-  private async makeShopifyRequest(endpoint: string, params: Record<string, any> = {}) {
+  private async makeShopifyRequest(
+    endpoint: string,
+    params: Record<string, any> = {},
+    init: { method?: 'GET' | 'POST' | 'PUT' | 'DELETE'; body?: any } = {}
+  ): Promise<ShopifyPage> {
     const url = new URL(`https://${this.shopName}/admin/api/${this.apiVersion}/${endpoint}`)
     
     // Add query parameters
@@ -24,17 +160,21 @@ export class ShopifyService {
       }
     })
 
-    console.log(`[SHOPIFY API] Making request to: ${endpoint}`, { params, tenantId: this.tenantId })
+    const method = init.method || 'GET'
+    console.log(`[SHOPIFY API] Making ${method} request to: ${endpoint}`, { params, tenantId: this.tenantId })
 
-    const response = await fetch(url.toString(), {
-      method: 'GET',
+    // The shared limiter paces requests against this shop's call-limit bucket and retries 429s,
+    // and 5xx for methods that are safe to repeat
+    const response = await shopifyRateLimiter.schedule(this.shopName, () => fetch(url.toString(), {
+      method,
       headers: {
         'X-Shopify-Access-Token': this.accessToken,
         'Content-Type': 'application/json',
       },
+      body: init.body ? JSON.stringify(init.body) : undefined,
       // Add timeout for Vercel
       signal: AbortSignal.timeout(25000) // 25 seconds, well under Vercel's 30s limit
-    })
+    }), method)
 
     if (!response.ok) {
       const errorText = await response.text()
@@ -42,270 +182,261 @@ export class ShopifyService {
       throw new Error(`Shopify API error: ${response.status} ${response.statusText} - ${errorText}`)
     }
 
-    const data = await response.json()
-    console.log(`[SHOPIFY API SUCCESS] ${endpoint} returned ${data.orders?.length || data.customers?.length || data.products?.length || 0} items`)
-    return data
+    // DELETE responds with an empty body
+    const text = await response.text()
+    const data = text ? JSON.parse(text) : {}
+    const nextPageInfo = parseNextPageInfo(response.headers.get('link'))
+    console.log(`[SHOPIFY API SUCCESS] ${endpoint} returned ${data.orders?.length || data.customers?.length || data.products?.length || 0} items`, { hasNextPage: !!nextPageInfo })
+    return { data, nextPageInfo }
+  }
+
+  // Once page_info is set Shopify rejects any filter other than limit/fields,
+  // since the cursor already encodes the original query
+  private getPageParams(params: Record<string, any>, pageInfo: string | null) {
+    return pageInfo ? { limit: params.limit, fields: params.fields, page_info: pageInfo } : { ...params }
+  }
+
+  // Fetches one page of a sync resource through whichever API the service is set to use.
+  // GraphQL nodes are mapped to REST payloads so both paths share the same upserts.
+  private async fetchSyncPage(
+    resourceKey: SyncResourceType,
+    params: Record<string, any>,
+    pageInfo: string | null
+  ): Promise<{ records: any[]; nextPageInfo: string | null }> {
+    if (this.api === 'graphql') {
+      const page = await this.graphql.fetchPage(SYNC_QUERIES[resourceKey], {
+        first: Math.min(params.limit, SYNC_PAGE_SIZES[resourceKey]),
+        after: pageInfo,
+        query: params.updated_at_min ? `updated_at:>='${params.updated_at_min}'` : null
+      }, data => data[resourceKey])
+
+      await completeNestedConnections(this.graphql, resourceKey, page.nodes)
+      return {
+        records: page.nodes.map(REST_MAPPERS[resourceKey]),
+        nextPageInfo: page.hasNextPage ? page.endCursor : null
+      }
+    }
+
+    const { data, nextPageInfo } = await this.makeShopifyRequest(`${resourceKey}.json`, this.getPageParams(params, pageInfo))
+    return { records: data[resourceKey] || [], nextPageInfo }
+  }
+
+  private hasTimeRemaining() {
+    return !this.deadline || Date.now() < this.deadline
+  }
+
+  // Requests one page at a time and hands it to onPage before asking for the next,
+  // so memory stays flat regardless of store size. Resolves to false when the run
+  // stopped early (page error or deadline) and the data set is only partially synced.
+  private async streamPages(
+    resourceKey: SyncResourceType,
+    params: Record<string, any>,
+    startPageInfo: string | null,
+    onPage: (records: any[], nextPageInfo: string | null) => Promise<void>
+  ): Promise<boolean> {
+    let pageInfo = startPageInfo
+    let pageCount = 0
+
+    while (true) {
+      if (!this.hasTimeRemaining()) {
+        console.warn(`[SYNC] Deadline reached after ${pageCount} ${resourceKey} pages - stopping with partial data`)
+        return false
+      }
+
+      pageCount++
+      let page: { records: any[]; nextPageInfo: string | null }
+      try {
+        console.log(`[SYNC] Fetching ${resourceKey} page ${pageCount} via ${this.api}...`)
+        page = await this.fetchSyncPage(resourceKey, params, pageInfo)
+      } catch (pageError) {
+        console.error(`[SYNC ERROR] Error fetching ${resourceKey} page ${pageCount}:`, pageError)
+        if (pageCount === 1 && startPageInfo) {
+          // The saved cursor may no longer be accepted; restart the window next run
+          await this.discardCheckpointCursor(resourceKey)
+        }
+        return false
+      }
+
+      await onPage(page.records, page.nextPageInfo)
+
+      // Follow the rel="next" cursor until Shopify stops returning one
+      if (!page.nextPageInfo) {
+        console.log(`[SYNC] No more ${resourceKey} to fetch after ${pageCount} pages`)
+        return true
+      }
+
+      pageInfo = page.nextPageInfo
+    }
   }
 
-  async syncCustomers(limit = 250) {
+  async syncCustomers(limit = 250): Promise<SyncRunResult> {
     try {
       console.log(`Starting customer sync for tenant ${this.tenantId}`)
       
-      // Get the last sync time for customers
-      const lastSync = await this.getLastSyncTime('customers')
-      
       const params: any = { 
         limit: Math.min(limit, 250) // Shopify API limit is 250
       }
       
-      // For incremental sync, use last sync time
-      if (lastSync) {
-        params.updated_at_min = lastSync.toISOString()
-        console.log(`Incremental customer sync since: ${lastSync.toISOString()}`)
-      } else {
-        console.log('Full customer sync - fetching ALL customers from store history')
-      }
-      
-      let allCustomers = []
-      let hasMorePages = true
-      let pageInfo = null
+      // Resume an unfinished run from its cursor, or start a new window from the checkpoint
+      const { pageInfo, since } = await this.beginCheckpoint('customers')
       
-      // Fetch all pages using proper pagination
-      while (hasMorePages && allCustomers.length < 5000) { // Safety limit
-        try {
-          const pageParams = { ...params }
-          if (pageInfo) {
-            pageParams.page_info = pageInfo
-          }
-          
-          console.log(`Fetching customers page...`)
-          const data = await this.makeShopifyRequest('customers.json', pageParams)
-          const customers = data.customers || []
-          
-          if (!customers || customers.length === 0) {
-            hasMorePages = false
-            console.log('No more customers to fetch')
-          } else {
-            allCustomers.push(...customers)
-            console.log(`Fetched ${customers.length} customers (Total: ${allCustomers.length})`)
-            
-            // Check if we got a full page, if not, we're done
-            if (customers.length < params.limit) {
-              hasMorePages = false
-            } else {
-              // Use the last customer's ID for pagination
-              pageInfo = customers[customers.length - 1].id
-              // Small delay to respect API rate limits
-              await new Promise(resolve => setTimeout(resolve, 500))
-            }
-          }
-        } catch (pageError) {
-          console.error(`Error fetching customer page:`, pageError)
-          hasMorePages = false
-        }
+      // Kept on resume too - GraphQL cursors are only valid with the original filter
+      if (since) {
+        params.updated_at_min = since.toISOString()
       }
       
-      console.log(`Total customers fetched: ${allCustomers.length}`)
+      if (pageInfo) {
+        console.log('Resuming customer sync from saved checkpoint')
+      } else if (since) {
+        console.log(`Incremental customer sync since: ${since.toISOString()}`)
+      } else {
+        console.log('Full customer sync - fetching ALL customers from store history')
+      }
       
-      // Process all customers
       let processed = 0
-      for (const customer of allCustomers) {
-        try {
-          await this.upsertCustomer(customer)
-          processed++
-          
-          // Log progress every 50 customers
-          if (processed % 50 === 0) {
-            console.log(`Processed ${processed}/${allCustomers.length} customers`)
+      const complete = await this.streamPages('customers', params, pageInfo, async (customers, nextPageInfo) => {
+        for (const customer of customers) {
+          try {
+            await this.upsertCustomer(customer)
+            processed++
+          } catch (error) {
+            console.error(`Error processing customer ${customer.id}:`, error)
           }
-        } catch (error) {
-          console.error(`Error processing customer ${customer.id}:`, error)
         }
+        await this.saveCheckpoint('customers', customers, nextPageInfo)
+        console.log(`Processed ${customers.length} customers (Total: ${processed})`)
+      })
+      
+      // Only promote the high-water mark once every page made it in
+      if (complete) {
+        await this.completeCheckpoint('customers')
+        await this.updateLastSyncTime('customers')
       }
       
-      // Update last sync time
-      await this.updateLastSyncTime('customers')
+      // Orders written before these customers existed can be linked now
+      const relinked = await this.relinkOrphans()
       
-      console.log(`Customer sync completed: ${processed} customers processed`)
-      return processed
+      console.log(`Customer sync ${complete ? 'completed' : 'stopped early'}: ${processed} customers processed`)
+      return { processed, complete, relinked: relinked.orders + relinked.orderItems + relinked.refundLineItems }
     } catch (error) {
       console.error('Error syncing customers:', error)
       throw error
     }
   }
 
-  async syncOrders(limit = 250) {
+  async syncOrders(limit = 250): Promise<SyncRunResult> {
     try {
       console.log(`[SYNC] Starting order sync for tenant ${this.tenantId}`)
       const syncStartTime = Date.now()
       
-      // Get the last sync time for orders
-      const lastSync = await this.getLastSyncTime('orders')
-      
       const params: any = { 
         limit: Math.min(limit, 250), // Shopify API limit is 250
         status: 'any'
       }
       
-      // For incremental sync, use last sync time
-      if (lastSync) {
-        params.updated_at_min = lastSync.toISOString()
-        console.log(`[SYNC] Incremental order sync since: ${lastSync.toISOString()}`)
+      // Resume an unfinished run from its cursor, or start a new window from the checkpoint
+      const { pageInfo, since } = await this.beginCheckpoint('orders')
+      
+      // Kept on resume too - GraphQL cursors are only valid with the original filter
+      if (since) {
+        params.updated_at_min = since.toISOString()
+      }
+      
+      if (pageInfo) {
+        console.log('[SYNC] Resuming order sync from saved checkpoint')
+      } else if (since) {
+        console.log(`[SYNC] Incremental order sync since: ${since.toISOString()}`)
       } else {
         console.log('[SYNC] Full order sync - fetching ALL orders from store history')
       }
       
-      let allOrders = []
-      let hasMorePages = true
-      let pageInfo = null
-      let pageCount = 0
-      
-      // Fetch all pages using proper pagination
-      while (hasMorePages && allOrders.length < 5000) { // Safety limit
+      let processed = 0
+      const complete = await this.streamPages('orders', params, pageInfo, async (orders, nextPageInfo) => {
         try {
-          pageCount++
-          const pageParams = { ...params }
-          if (pageInfo) {
-            pageParams.page_info = pageInfo
-          }
-          
-          console.log(`[SYNC] Fetching orders page ${pageCount}...`)
-          const data = await this.makeShopifyRequest('orders.json', pageParams)
-          const orders = data.orders || []
-          
-          if (!orders || orders.length === 0) {
-            hasMorePages = false
-            console.log('[SYNC] No more orders to fetch')
-          } else {
-            allOrders.push(...orders)
-            console.log(`[SYNC] Fetched ${orders.length} orders (Total: ${allOrders.length})`)
-            
-            // Check if we got a full page, if not, we're done
-            if (orders.length < params.limit) {
-              hasMorePages = false
-            } else {
-              // Use the last order's ID for pagination
-              pageInfo = orders[orders.length - 1].id
-              // Small delay to respect API rate limits
-              await new Promise(resolve => setTimeout(resolve, 500))
+          await this.upsertOrders(orders)
+          processed += orders.length
+        } catch (pageError) {
+          // One bad order rolls back the whole page; retry individually so the rest still land
+          console.error('[SYNC ERROR] Order page transaction failed, retrying orders one by one:', pageError)
+          for (const order of orders) {
+            try {
+              await this.upsertOrder(order)
+              processed++
+            } catch (error) {
+              console.error(`[SYNC ERROR] Error processing order ${order.id}:`, error)
             }
           }
-        } catch (pageError) {
-          console.error(`[SYNC ERROR] Error fetching order page ${pageCount}:`, pageError)
-          hasMorePages = false
         }
-      }
-      
-      console.log(`[SYNC] Total orders fetched: ${allOrders.length}`)
+        // Rollups for the page's days land before the checkpoint moves past them
+        await this.refreshRollups()
+        await this.saveCheckpoint('orders', orders, nextPageInfo)
+        console.log(`[SYNC] Processed ${orders.length} orders (Total: ${processed})`)
+      })
       
-      // Process all orders
-      let processed = 0
-      for (const order of allOrders) {
-        try {
-          await this.upsertOrder(order)
-          processed++
-          
-          // Log progress every 50 orders
-          if (processed % 50 === 0) {
-            console.log(`[SYNC] Processed ${processed}/${allOrders.length} orders`)
-          }
-        } catch (error) {
-          console.error(`[SYNC ERROR] Error processing order ${order.id}:`, error)
-        }
+      // Only promote the high-water mark once every page made it in
+      if (complete) {
+        await this.completeCheckpoint('orders')
+        await this.updateLastSyncTime('orders')
       }
       
-      // Update last sync time
-      await this.updateLastSyncTime('orders')
-      
       const totalTime = Date.now() - syncStartTime
-      console.log(`[SYNC COMPLETE] Order sync completed: ${processed} orders processed in ${totalTime}ms`)
-      return processed
+      console.log(`[SYNC ${complete ? 'COMPLETE' : 'PARTIAL'}] Order sync finished: ${processed} orders processed in ${totalTime}ms`)
+      return { processed, complete }
     } catch (error) {
       console.error('[SYNC ERROR] Error syncing orders:', error)
       throw error
     }
   }
 
-  async syncProducts(limit = 250) {
+  async syncProducts(limit = 250): Promise<SyncRunResult> {
     try {
       console.log(`Starting product sync for tenant ${this.tenantId}`)
       
-      // Get the last sync time for products
-      const lastSync = await this.getLastSyncTime('products')
-      
       const params: any = { 
         limit: Math.min(limit, 250) // Shopify API limit is 250
       }
       
-      if (lastSync) {
-        params.updated_at_min = lastSync.toISOString()
-        console.log(`Incremental product sync since: ${lastSync.toISOString()}`)
-      } else {
-        console.log('Full product sync - fetching ALL products from store')
-      }
-      
-      let allProducts = []
-      let hasMorePages = true
-      let pageInfo = null
+      // Resume an unfinished run from its cursor, or start a new window from the checkpoint
+      const { pageInfo, since } = await this.beginCheckpoint('products')
       
-      // Fetch all pages using proper pagination
-      while (hasMorePages && allProducts.length < 5000) { // Safety limit
-        try {
-          const pageParams = { ...params }
-          if (pageInfo) {
-            pageParams.page_info = pageInfo
-          }
-          
-          console.log(`Fetching products page...`)
-          const data = await this.makeShopifyRequest('products.json', pageParams)
-          const products = data.products || []
-          
-          if (!products || products.length === 0) {
-            hasMorePages = false
-            console.log('No more products to fetch')
-          } else {
-            allProducts.push(...products)
-            console.log(`Fetched ${products.length} products (Total: ${allProducts.length})`)
-            
-            // Check if we got a full page, if not, we're done
-            if (products.length < params.limit) {
-              hasMorePages = false
-            } else {
-              // Use the last product's ID for pagination
-              pageInfo = products[products.length - 1].id
-              // Small delay to respect API rate limits
-              await new Promise(resolve => setTimeout(resolve, 500))
-            }
-          }
-        } catch (pageError) {
-          console.error(`Error fetching product page:`, pageError)
-          hasMorePages = false
-        }
+      // Kept on resume too - GraphQL cursors are only valid with the original filter
+      if (since) {
+        params.updated_at_min = since.toISOString()
       }
       
-      console.log(`Total products fetched: ${allProducts.length}`)
+      if (pageInfo) {
+        console.log('Resuming product sync from saved checkpoint')
+      } else if (since) {
+        console.log(`Incremental product sync since: ${since.toISOString()}`)
+      } else {
+        console.log('Full product sync - fetching ALL products from store')
+      }
       
-      // Process all products
       let processed = 0
-      for (const product of allProducts) {
-        try {
-          await this.upsertProduct(product)
-          processed++
-          
-          // Log progress every 50 products
-          if (processed % 50 === 0) {
-            console.log(`Processed ${processed}/${allProducts.length} products`)
+      const complete = await this.streamPages('products', params, pageInfo, async (products, nextPageInfo) => {
+        for (const product of products) {
+          try {
+            await this.upsertProduct(product)
+            processed++
+          } catch (error) {
+            console.error(`Error processing product ${product.id}:`, error)
           }
-        } catch (error) {
-          console.error(`Error processing product ${product.id}:`, error)
         }
+        await this.saveCheckpoint('products', products, nextPageInfo)
+        console.log(`Processed ${products.length} products (Total: ${processed})`)
+      })
+      
+      // Only promote the high-water mark once every page made it in
+      if (complete) {
+        await this.completeCheckpoint('products')
+        await this.updateLastSyncTime('products')
       }
       
-      // Update last sync time
-      await this.updateLastSyncTime('products')
+      // Orders written before these products existed can be linked now
+      const relinked = await this.relinkOrphans()
       
-      console.log(`Product sync completed: ${processed} products processed`)
-      return processed
+      console.log(`Product sync ${complete ? 'completed' : 'stopped early'}: ${processed} products processed`)
+      return { processed, complete, relinked: relinked.orders + relinked.orderItems + relinked.refundLineItems }
     } catch (error) {
       console.error('Error syncing products:', error)
       throw error
@@ -329,6 +460,9 @@ export class ShopifyService {
         ordersCount: shopifyCustomer.orders_count || 0,
         tags: shopifyCustomer.tags ? shopifyCustomer.tags.split(', ') : [],
         acceptsMarketing: shopifyCustomer.accepts_marketing || false,
+        shopifyCreatedAt: shopifyTimestamp(shopifyCustomer.created_at),
+        shopifyUpdatedAt: shopifyTimestamp(shopifyCustomer.updated_at),
+        deletedAt: null,
         updatedAt: new Date()
       },
       create: {
@@ -341,137 +475,328 @@ export class ShopifyService {
         totalSpent: parseFloat(shopifyCustomer.total_spent || '0'),
         ordersCount: shopifyCustomer.orders_count || 0,
         tags: shopifyCustomer.tags ? shopifyCustomer.tags.split(', ') : [],
-        acceptsMarketing: shopifyCustomer.accepts_marketing || false
+        acceptsMarketing: shopifyCustomer.accepts_marketing || false,
+        shopifyCreatedAt: shopifyTimestamp(shopifyCustomer.created_at),
+        shopifyUpdatedAt: shopifyTimestamp(shopifyCustomer.updated_at)
       }
     })
   }
 
   private async upsertOrder(shopifyOrder: any) {
-    // First, ensure customer exists
-    let customer = null
-    if (shopifyOrder.customer?.id) {
-      customer = await prisma.customer.findUnique({
+    const [order] = await this.upsertOrders([shopifyOrder])
+    return order
+  }
+
+  // Writes a page of orders and their line items in one transaction, so a crash can
+  // never leave an order without its items. Customer and product lookups are batched
+  // into one query each and line items are inserted with a single createMany.
+  private async upsertOrders(shopifyOrders: any[]) {
+    if (shopifyOrders.length === 0) return []
+
+    const customerShopifyIds = [...new Set(
+      shopifyOrders
+        .map(o => o.customer?.id?.toString())
+        .filter((id): id is string => !!id)
+    )]
+    const productShopifyIds = [...new Set(
+      shopifyOrders
+        .flatMap(o => [
+          ...(o.line_items || []),
+          ...(o.refunds || []).flatMap((r: any) => (r.refund_line_items || []).map((ri: any) => ri.line_item || {}))
+        ])
+        .map((item: any) => item.product_id?.toString())
+        .filter((id): id is string => !!id)
+    )]
+    const variantShopifyIds = [...new Set(
+      shopifyOrders
+        .flatMap(o => o.line_items || [])
+        .map((item: any) => item.variant_id?.toString())
+        .filter((id): id is string => !!id)
+    )]
+
+    const written = await prisma.$transaction(async (tx) => {
+      const customers = customerShopifyIds.length > 0
+        ? await tx.customer.findMany({
+            where: { tenantId: this.tenantId, shopifyId: { in: customerShopifyIds } },
+            select: { id: true, shopifyId: true }
+          })
+        : []
+      const products = productShopifyIds.length > 0
+        ? await tx.product.findMany({
+            where: { tenantId: this.tenantId, shopifyId: { in: productShopifyIds } },
+            select: { id: true, shopifyId: true }
+          })
+        : []
+
+      const variants = variantShopifyIds.length > 0
+        ? await tx.productVariant.findMany({
+            where: { tenantId: this.tenantId, shopifyId: { in: variantShopifyIds } },
+            select: { id: true, shopifyId: true }
+          })
+        : []
+
+      const customerIds = new Map(customers.map(c => [c.shopifyId, c.id]))
+      const productIds = new Map(products.map(p => [p.shopifyId, p.id]))
+      const variantIds = new Map(variants.map(v => [v.shopifyId, v.id]))
+
+      const saved = []
+      for (const shopifyOrder of shopifyOrders) {
+        const customerShopifyId = shopifyOrder.customer?.id?.toString() || null
+        const orderData = {
+          customerShopifyId,
+          orderNumber: shopifyOrder.order_number?.toString() || shopifyOrder.name,
+          email: shopifyOrder.email,
+          totalPrice: parseFloat(shopifyOrder.total_price),
+          presentmentCurrency: shopifyOrder.presentment_currency || null,
+          totalPricePresentment: shopifyOrder.total_price_set?.presentment_money?.amount != null
+            ? parseFloat(shopifyOrder.total_price_set.presentment_money.amount)
+            : null,
+          subtotalPrice: parseFloat(shopifyOrder.subtotal_price || '0'),
+          totalTax: parseFloat(shopifyOrder.total_tax || '0'),
+          totalDiscounts: parseFloat(shopifyOrder.total_discounts || '0'),
+          totalShipping: orderShipping(shopifyOrder),
+          currency: shopifyOrder.currency,
+          financialStatus: shopifyOrder.financial_status,
+          fulfillmentStatus: shopifyOrder.fulfillment_status,
+          tags: shopifyOrder.tags ? shopifyOrder.tags.split(', ') : [],
+          note: shopifyOrder.note,
+          processedAt: shopifyTimestamp(shopifyOrder.processed_at),
+          shopifyCreatedAt: shopifyTimestamp(shopifyOrder.created_at),
+          shopifyUpdatedAt: shopifyTimestamp(shopifyOrder.updated_at),
+          cancelledAt: shopifyOrder.cancelled_at ? new Date(shopifyOrder.cancelled_at) : null,
+          // Payloads without a refunds array leave the stored total alone
+          ...(shopifyOrder.refunds ? {
+            totalRefunded: shopifyOrder.refunds.reduce((sum: number, r: any) => sum + refundAmount(r), 0)
+          } : {}),
+          deletedAt: null
+        }
+
+        const order = await tx.order.upsert({
+          where: {
+            shopifyId_tenantId: {
+              shopifyId: shopifyOrder.id.toString(),
+              tenantId: this.tenantId
+            }
+          },
+          update: {
+            ...orderData,
+            // Relink on every update; a missing customer leaves the existing link alone
+            customerId: customerShopifyId ? customerIds.get(customerShopifyId) : null,
+            updatedAt: new Date()
+          },
+          create: {
+            shopifyId: shopifyOrder.id.toString(),
+            tenantId: this.tenantId,
+            customerId: customerShopifyId ? customerIds.get(customerShopifyId) : null,
+            ...orderData
+          }
+        })
+
+        saved.push({ order, shopifyOrder })
+      }
+
+      // Replace line items for every order that came with them
+      const withItems = saved.filter(({ shopifyOrder }) => shopifyOrder.line_items)
+      if (withItems.length > 0) {
+        await tx.orderItem.deleteMany({
+          where: { orderId: { in: withItems.map(({ order }) => order.id) } }
+        })
+
+        await tx.orderItem.createMany({
+          data: withItems.flatMap(({ order, shopifyOrder }) =>
+            shopifyOrder.line_items.map((lineItem: any) => ({
+              orderId: order.id,
+              productId: productIds.get(lineItem.product_id?.toString()),
+              productShopifyId: lineItem.product_id?.toString(),
+              variantId: variantIds.get(lineItem.variant_id?.toString()),
+              variantShopifyId: lineItem.variant_id?.toString(),
+              title: lineItem.title,
+              quantity: lineItem.quantity,
+              price: parseFloat(lineItem.price),
+              totalDiscount: parseFloat(lineItem.total_discount || '0')
+            }))
+          )
+        })
+      }
+
+      // Discounts are replaced for every order whose payload described them
+      const withDiscounts = saved
+        .map(({ order, shopifyOrder }) => ({ order, discounts: orderDiscounts(shopifyOrder) }))
+        .filter(({ discounts }) => discounts !== null)
+      if (withDiscounts.length > 0) {
+        await tx.orderDiscount.deleteMany({
+          where: { orderId: { in: withDiscounts.map(({ order }) => order.id) } }
+        })
+
+        await tx.orderDiscount.createMany({
+          data: withDiscounts.flatMap(({ order, discounts }) =>
+            discounts!.map(discount => ({
+              orderId: order.id,
+              tenantId: this.tenantId,
+              ...discount
+            }))
+          )
+        })
+      }
+
+      // Fulfillments too; tracking and shipment status change after the fact
+      const withFulfillments = saved.filter(({ shopifyOrder }) => shopifyOrder.fulfillments)
+      if (withFulfillments.length > 0) {
+        await tx.fulfillment.deleteMany({
+          where: { orderId: { in: withFulfillments.map(({ order }) => order.id) } }
+        })
+
+        await tx.fulfillment.createMany({
+          data: withFulfillments.flatMap(({ order, shopifyOrder }) =>
+            shopifyOrder.fulfillments.map((fulfillment: any) => ({
+              shopifyId: fulfillment.id.toString(),
+              tenantId: this.tenantId,
+              orderId: order.id,
+              status: fulfillment.status || 'success',
+              shipmentStatus: fulfillment.shipment_status || null,
+              trackingCompany: fulfillment.tracking_company || null,
+              trackingNumber: fulfillment.tracking_number || null,
+              shopifyCreatedAt: new Date(fulfillment.created_at),
+              shopifyUpdatedAt: fulfillment.updated_at ? new Date(fulfillment.updated_at) : null
+            }))
+          )
+        })
+      }
+
+      // Refunds are replaced the same way; their line items go with them on cascade
+      const withRefunds = saved.filter(({ shopifyOrder }) => shopifyOrder.refunds)
+      if (withRefunds.length > 0) {
+        await tx.refund.deleteMany({
+          where: { orderId: { in: withRefunds.map(({ order }) => order.id) } }
+        })
+
+        for (const { order, shopifyOrder } of withRefunds) {
+          for (const refund of shopifyOrder.refunds) {
+            await tx.refund.create({
+              data: {
+                shopifyId: refund.id.toString(),
+                tenantId: this.tenantId,
+                orderId: order.id,
+                amount: refundAmount(refund),
+                note: refund.note,
+                processedAt: refund.processed_at ? new Date(refund.processed_at) : null,
+                refundLineItems: {
+                  createMany: {
+                    data: (refund.refund_line_items || []).map((refundItem: any) => ({
+                      lineItemShopifyId: refundItem.line_item_id?.toString(),
+                      productId: productIds.get(refundItem.line_item?.product_id?.toString()),
+                      productShopifyId: refundItem.line_item?.product_id?.toString(),
+                      quantity: refundItem.quantity || 0,
+                      subtotal: parseFloat(refundItem.subtotal || '0'),
+                      totalTax: parseFloat(refundItem.total_tax || '0'),
+                      restockType: refundItem.restock_type
+                    }))
+                  }
+                }
+              }
+            })
+          }
+        }
+      }
+
+      return saved.map(({ order }) => order)
+    }, {
+      timeout: 30000 // a full page of 250 orders with items
+    })
+
+    this.touchedOrderDates.push(...written.map(order => order.processedAt || order.createdAt))
+    return written
+  }
+
+  // The product and its variants are written together so stock and SKUs never lag
+  // behind the product row
+  private async upsertProduct(shopifyProduct: any) {
+    return await prisma.$transaction(async (tx) => {
+      const product = await tx.product.upsert({
         where: {
           shopifyId_tenantId: {
-            shopifyId: shopifyOrder.customer.id.toString(),
+            shopifyId: shopifyProduct.id.toString(),
             tenantId: this.tenantId
           }
+        },
+        update: {
+          title: shopifyProduct.title,
+          handle: shopifyProduct.handle,
+          description: shopifyProduct.body_html,
+          vendor: shopifyProduct.vendor,
+          productType: shopifyProduct.product_type,
+          tags: shopifyProduct.tags ? shopifyProduct.tags.split(', ') : [],
+          status: shopifyProduct.status,
+          images: shopifyProduct.images || [],
+          variants: shopifyProduct.variants || [],
+          shopifyCreatedAt: shopifyTimestamp(shopifyProduct.created_at),
+          shopifyUpdatedAt: shopifyTimestamp(shopifyProduct.updated_at),
+          deletedAt: null,
+          updatedAt: new Date()
+        },
+        create: {
+          shopifyId: shopifyProduct.id.toString(),
+          tenantId: this.tenantId,
+          title: shopifyProduct.title,
+          handle: shopifyProduct.handle,
+          description: shopifyProduct.body_html,
+          vendor: shopifyProduct.vendor,
+          productType: shopifyProduct.product_type,
+          tags: shopifyProduct.tags ? shopifyProduct.tags.split(', ') : [],
+          status: shopifyProduct.status,
+          images: shopifyProduct.images || [],
+          variants: shopifyProduct.variants || [],
+          shopifyCreatedAt: shopifyTimestamp(shopifyProduct.created_at),
+          shopifyUpdatedAt: shopifyTimestamp(shopifyProduct.updated_at)
         }
       })
-    }
 
-    const order = await prisma.order.upsert({
-      where: {
-        shopifyId_tenantId: {
-          shopifyId: shopifyOrder.id.toString(),
-          tenantId: this.tenantId
+      if (shopifyProduct.variants) {
+        const variantShopifyIds = shopifyProduct.variants.map((v: any) => v.id.toString())
+
+        // Variants removed in Shopify go; order items keep their variantShopifyId. A partial
+        // list says nothing about the variants it left out
+        if (!shopifyProduct.variants_truncated) {
+          await tx.productVariant.deleteMany({
+            where: { productId: product.id, shopifyId: { notIn: variantShopifyIds } }
+          })
         }
-      },
-      update: {
-        orderNumber: shopifyOrder.order_number?.toString() || shopifyOrder.name,
-        email: shopifyOrder.email,
-        totalPrice: parseFloat(shopifyOrder.total_price),
-        subtotalPrice: parseFloat(shopifyOrder.subtotal_price || '0'),
-        totalTax: parseFloat(shopifyOrder.total_tax || '0'),
-        currency: shopifyOrder.currency,
-        financialStatus: shopifyOrder.financial_status,
-        fulfillmentStatus: shopifyOrder.fulfillment_status,
-        tags: shopifyOrder.tags ? shopifyOrder.tags.split(', ') : [],
-        note: shopifyOrder.note,
-        processedAt: shopifyOrder.processed_at ? new Date(shopifyOrder.processed_at) : null,
-        cancelledAt: shopifyOrder.cancelled_at ? new Date(shopifyOrder.cancelled_at) : null,
-        updatedAt: new Date()
-      },
-      create: {
-        shopifyId: shopifyOrder.id.toString(),
-        tenantId: this.tenantId,
-        customerId: customer?.id,
-        orderNumber: shopifyOrder.order_number?.toString() || shopifyOrder.name,
-        email: shopifyOrder.email,
-        totalPrice: parseFloat(shopifyOrder.total_price),
-        subtotalPrice: parseFloat(shopifyOrder.subtotal_price || '0'),
-        totalTax: parseFloat(shopifyOrder.total_tax || '0'),
-        currency: shopifyOrder.currency,
-        financialStatus: shopifyOrder.financial_status,
-        fulfillmentStatus: shopifyOrder.fulfillment_status,
-        tags: shopifyOrder.tags ? shopifyOrder.tags.split(', ') : [],
-        note: shopifyOrder.note,
-        processedAt: shopifyOrder.processed_at ? new Date(shopifyOrder.processed_at) : null,
-        cancelledAt: shopifyOrder.cancelled_at ? new Date(shopifyOrder.cancelled_at) : null
-      }
-    })
 
-    // Handle order items
-    if (shopifyOrder.line_items) {
-      // Delete existing order items
-      await prisma.orderItem.deleteMany({
-        where: { orderId: order.id }
-      })
+        for (const variant of shopifyProduct.variants) {
+          const variantData = {
+            productId: product.id,
+            inventoryItemId: variant.inventory_item_id?.toString() || null,
+            title: variant.title,
+            sku: variant.sku || null,
+            price: parseFloat(variant.price || '0'),
+            compareAtPrice: variant.compare_at_price ? parseFloat(variant.compare_at_price) : null,
+            inventoryQuantity: variant.inventory_quantity || 0,
+            option1: variant.option1 || null,
+            option2: variant.option2 || null,
+            option3: variant.option3 || null,
+            position: variant.position || null
+          }
 
-      // Create new order items
-      for (const lineItem of shopifyOrder.line_items) {
-        let product = null
-        if (lineItem.product_id) {
-          product = await prisma.product.findUnique({
+          await tx.productVariant.upsert({
             where: {
               shopifyId_tenantId: {
-                shopifyId: lineItem.product_id.toString(),
+                shopifyId: variant.id.toString(),
                 tenantId: this.tenantId
               }
+            },
+            update: variantData,
+            create: {
+              shopifyId: variant.id.toString(),
+              tenantId: this.tenantId,
+              ...variantData
             }
           })
         }
-
-        await prisma.orderItem.create({
-          data: {
-            orderId: order.id,
-            productId: product?.id,
-            variantId: lineItem.variant_id?.toString(),
-            title: lineItem.title,
-            quantity: lineItem.quantity,
-            price: parseFloat(lineItem.price),
-            totalDiscount: parseFloat(lineItem.total_discount || '0')
-          }
-        })
       }
-    }
-
-    return order
-  }
 
-  private async upsertProduct(shopifyProduct: any) {
-    return await prisma.product.upsert({
-      where: {
-        shopifyId_tenantId: {
-          shopifyId: shopifyProduct.id.toString(),
-          tenantId: this.tenantId
-        }
-      },
-      update: {
-        title: shopifyProduct.title,
-        handle: shopifyProduct.handle,
-        description: shopifyProduct.body_html,
-        vendor: shopifyProduct.vendor,
-        productType: shopifyProduct.product_type,
-        tags: shopifyProduct.tags ? shopifyProduct.tags.split(', ') : [],
-        status: shopifyProduct.status,
-        images: shopifyProduct.images || [],
-        variants: shopifyProduct.variants || [],
-        updatedAt: new Date()
-      },
-      create: {
-        shopifyId: shopifyProduct.id.toString(),
-        tenantId: this.tenantId,
-        title: shopifyProduct.title,
-        handle: shopifyProduct.handle,
-        description: shopifyProduct.body_html,
-        vendor: shopifyProduct.vendor,
-        productType: shopifyProduct.product_type,
-        tags: shopifyProduct.tags ? shopifyProduct.tags.split(', ') : [],
-        status: shopifyProduct.status,
-        images: shopifyProduct.images || [],
-        variants: shopifyProduct.variants || []
-      }
+      return product
+    }, {
+      timeout: 30000 // products can carry hundreds of variants
     })
   }
 
@@ -482,7 +807,8 @@ export class ShopifyService {
         where: {
           tenantId: this.tenantId,
           syncType,
-          success: true
+          success: true,
+          complete: true
         },
         orderBy: {
           createdAt: 'desc'
@@ -513,6 +839,435 @@ export class ShopifyService {
     }
   }
 
+  // Orders sync before customers and line items can reference products we have not
+  // seen yet, so link any rows whose Shopify id now resolves to a local record.
+  // orderItems counts both product and variant links. Each update returns when the
+  // affected order was placed, so the rollups for those days can be refreshed.
+  async relinkOrphans(): Promise<{ orders: number; orderItems: number; refundLineItems: number }> {
+    const orders: Array<{ placedAt: Date }> = await prisma.$queryRaw`
+      UPDATE "orders" AS o
+      SET "customerId" = c."id"
+      FROM "customers" AS c
+      WHERE o."tenantId" = ${this.tenantId}
+        AND o."customerId" IS NULL
+        AND o."customerShopifyId" IS NOT NULL
+        AND c."tenantId" = o."tenantId"
+        AND c."shopifyId" = o."customerShopifyId"
+      RETURNING COALESCE(o."processedAt", o."createdAt") AS "placedAt"
+    `
+
+    const orderItemProducts: Array<{ placedAt: Date }> = await prisma.$queryRaw`
+      UPDATE "order_items" AS oi
+      SET "productId" = p."id"
+      FROM "orders" AS o, "products" AS p
+      WHERE oi."orderId" = o."id"
+        AND o."tenantId" = ${this.tenantId}
+        AND oi."productId" IS NULL
+        AND oi."productShopifyId" IS NOT NULL
+        AND p."tenantId" = o."tenantId"
+        AND p."shopifyId" = oi."productShopifyId"
+      RETURNING COALESCE(o."processedAt", o."createdAt") AS "placedAt"
+    `
+
+    const orderItemVariants: Array<{ placedAt: Date }> = await prisma.$queryRaw`
+      UPDATE "order_items" AS oi
+      SET "variantId" = v."id"
+      FROM "orders" AS o, "product_variants" AS v
+      WHERE oi."orderId" = o."id"
+        AND o."tenantId" = ${this.tenantId}
+        AND oi."variantId" IS NULL
+        AND oi."variantShopifyId" IS NOT NULL
+        AND v."tenantId" = o."tenantId"
+        AND v."shopifyId" = oi."variantShopifyId"
+      RETURNING COALESCE(o."processedAt", o."createdAt") AS "placedAt"
+    `
+
+    const refundLineItems: Array<{ placedAt: Date }> = await prisma.$queryRaw`
+      UPDATE "refund_line_items" AS ri
+      SET "productId" = p."id"
+      FROM "refunds" AS r, "orders" AS o, "products" AS p
+      WHERE ri."refundId" = r."id"
+        AND r."tenantId" = ${this.tenantId}
+        AND o."id" = r."orderId"
+        AND ri."productId" IS NULL
+        AND ri."productShopifyId" IS NOT NULL
+        AND p."tenantId" = r."tenantId"
+        AND p."shopifyId" = ri."productShopifyId"
+      RETURNING COALESCE(o."processedAt", o."createdAt") AS "placedAt"
+    `
+
+    const relinked = [...orders, ...orderItemProducts, ...orderItemVariants, ...refundLineItems]
+    const orderItems = orderItemProducts.length + orderItemVariants.length
+
+    if (relinked.length > 0) {
+      console.log(`[SYNC] Relinked ${orders.length} orders, ${orderItems} order items and ${refundLineItems.length} refund line items for tenant ${this.tenantId}`)
+      this.touchedOrderDates.push(...relinked.map(row => row.placedAt))
+      await this.refreshRollups()
+    }
+
+    return { orders: orders.length, orderItems, refundLineItems: refundLineItems.length }
+  }
+
+  // Rebuilds the dashboard rollups for the days of every order written since the last call
+  async refreshRollups(): Promise<number> {
+    const touched = this.touchedOrderDates
+    this.touchedOrderDates = []
+    return await refreshDailyRollups(this.tenantId, touched)
+  }
+
+  // Full rollup rebuild - the scheduled analytics sync, and after anything that moves days
+  async rebuildAnalytics(): Promise<SyncRunResult> {
+    console.log(`[ANALYTICS] Rebuilding daily rollups for tenant ${this.tenantId}`)
+    this.touchedOrderDates = []
+    const days = await rebuildDailyRollups(this.tenantId)
+    console.log(`[ANALYTICS] Rebuilt ${days} days of rollups for tenant ${this.tenantId}`)
+    return { processed: days, complete: true }
+  }
+
+  // Deletion tracking - rows are soft-deleted so history stays intact but analytics skip them
+  private softDeleteTarget(resource: SyncResourceType) {
+    const where = (shopifyIds: string[]) => ({ tenantId: this.tenantId, shopifyId: { in: shopifyIds } })
+    // Orders can be limited to those created in Shopify since a given time
+    const createdSince = (since?: Date) => since ? { shopifyCreatedAt: { gte: since } } : {}
+
+    return {
+      customers: {
+        list: () => prisma.customer.findMany({ where: { tenantId: this.tenantId }, select: { shopifyId: true, deletedAt: true } }),
+        mark: (shopifyIds: string[], deletedAt: Date | null) => prisma.customer.updateMany({ where: where(shopifyIds), data: { deletedAt } })
+      },
+      products: {
+        list: () => prisma.product.findMany({ where: { tenantId: this.tenantId }, select: { shopifyId: true, deletedAt: true } }),
+        mark: (shopifyIds: string[], deletedAt: Date | null) => prisma.product.updateMany({ where: where(shopifyIds), data: { deletedAt } })
+      },
+      orders: {
+        list: (since?: Date) => prisma.order.findMany({
+          where: { tenantId: this.tenantId, ...createdSince(since) },
+          select: { shopifyId: true, deletedAt: true }
+        }),
+        mark: (shopifyIds: string[], deletedAt: Date | null) => prisma.order.updateMany({ where: where(shopifyIds), data: { deletedAt } })
+      }
+    }[resource]
+  }
+
+  async markDeleted(resource: SyncResourceType, shopifyIds: string[], deletedAt: Date | null = new Date()) {
+    const target = this.softDeleteTarget(resource)
+    let count = 0
+
+    // Keep IN lists to a manageable size
+    for (let i = 0; i < shopifyIds.length; i += 1000) {
+      const batch = shopifyIds.slice(i, i + 1000)
+      if (resource === 'orders') {
+        const orders = await prisma.order.findMany({
+          where: { tenantId: this.tenantId, shopifyId: { in: batch } },
+          select: { processedAt: true, createdAt: true }
+        })
+        this.touchedOrderDates.push(...orders.map(order => order.processedAt || order.createdAt))
+      }
+      const result = await target.mark(batch, deletedAt)
+      count += result.count
+    }
+
+    // Deleted and restored orders move between the live and deleted rollup rows
+    if (resource === 'orders') {
+      await this.refreshRollups()
+    }
+
+    return count
+  }
+
+  // Compares Shopify's id set against local rows: rows missing upstream are soft-deleted
+  // and previously deleted rows that reappeared are restored. The id listing only runs
+  // when the count endpoint disagrees with our active row count.
+  async reconcileDeletions(): Promise<SyncRunResult> {
+    let processed = 0
+    let complete = true
+
+    for (const resource of ['customers', 'products', 'orders'] as SyncResourceType[]) {
+      const result = await this.reconcileResourceDeletions(resource)
+      processed += result.processed
+      complete = complete && result.complete
+    }
+
+    return { processed, complete }
+  }
+
+  private async reconcileResourceDeletions(resource: SyncResourceType): Promise<SyncRunResult> {
+    // Without the read_all_orders scope Shopify only lists the last 60 days of orders, so
+    // both sides are limited to orders created inside that window
+    const ordersSince = resource === 'orders'
+      ? new Date(Date.now() - RECONCILE_ORDER_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+      : undefined
+    const filters = ordersSince ? { status: 'any', created_at_min: ordersSince.toISOString() } : {}
+    const target = this.softDeleteTarget(resource)
+
+    const { data: countData } = await this.makeShopifyRequest(`${resource}/count.json`, filters)
+    const localRows = await target.list(ordersSince)
+    const activeCount = localRows.filter(row => !row.deletedAt).length
+
+    if (countData.count === activeCount) {
+      console.log(`[RECONCILE] ${resource} counts match (${activeCount}) - skipping id comparison`)
+      return { processed: 0, complete: true }
+    }
+
+    console.log(`[RECONCILE] ${resource} count mismatch: Shopify ${countData.count}, local ${activeCount}`)
+
+    const remoteIds = new Set<string>()
+    const params = { ...filters, limit: 250, fields: 'id' }
+    let pageInfo: string | null = null
+
+    do {
+      // A partial id set would mark everything we did not reach as deleted
+      if (!this.hasTimeRemaining()) {
+        console.warn(`[RECONCILE] Deadline reached while listing ${resource} ids - skipping`)
+        return { processed: 0, complete: false }
+      }
+
+      const page: ShopifyPage = await this.makeShopifyRequest(`${resource}.json`, this.getPageParams(params, pageInfo))
+      for (const record of page.data[resource] || []) {
+        remoteIds.add(record.id.toString())
+      }
+      pageInfo = page.nextPageInfo
+    } while (pageInfo)
+
+    // An empty or short listing is far more likely a scope or API problem than a mass
+    // deletion, and acting on it would hide real data
+    if (remoteIds.size === 0 || remoteIds.size < countData.count * RECONCILE_MIN_LISTED_SHARE) {
+      console.warn(`[RECONCILE] Listed only ${remoteIds.size} of ${countData.count} ${resource} - skipping`)
+      return { processed: 0, complete: false }
+    }
+
+    const deleted = localRows
+      .filter(row => !row.deletedAt && !remoteIds.has(row.shopifyId))
+      .map(row => row.shopifyId)
+    const restored = localRows
+      .filter(row => row.deletedAt && remoteIds.has(row.shopifyId))
+      .map(row => row.shopifyId)
+
+    const processed = await this.markDeleted(resource, deleted) + await this.markDeleted(resource, restored, null)
+
+    console.log(`[RECONCILE] ${resource}: ${deleted.length} marked deleted, ${restored.length} restored`)
+    return { processed, complete: true }
+  }
+
+  // Shop-level settings that analytics depend on
+  async syncShopDetails() {
+    const { data } = await this.makeShopifyRequest('shop.json')
+    const shop = data.shop || {}
+
+    const previous = await prisma.tenant.findUnique({
+      where: { id: this.tenantId },
+      select: { timezone: true }
+    })
+
+    await prisma.tenant.update({
+      where: { id: this.tenantId },
+      data: {
+        currency: shop.currency || undefined,
+        timezone: shop.iana_timezone || undefined
+      }
+    })
+
+    // Rollup days are calendar days in the shop's timezone, so a new zone moves every order.
+    // Compared as resolved zones, so rollups built under the fallback before the shop's zone
+    // was known get rebuilt too
+    if (shop.iana_timezone && getTenantTimezone(previous) !== getTenantTimezone({ timezone: shop.iana_timezone })) {
+      await this.rebuildAnalytics()
+    }
+
+    return shop
+  }
+
+  // Inventory - per-location stock for every variant we know about. Runs after product
+  // sync, which is what gives variants their inventory item ids.
+  async syncInventory(): Promise<SyncRunResult> {
+    console.log(`[INVENTORY] Starting inventory sync for tenant ${this.tenantId}`)
+
+    const { data: locationData } = await this.makeShopifyRequest('locations.json')
+    const locationIds = new Map<string, string>()
+    for (const location of locationData.locations || []) {
+      const saved = await prisma.location.upsert({
+        where: {
+          shopifyId_tenantId: {
+            shopifyId: location.id.toString(),
+            tenantId: this.tenantId
+          }
+        },
+        update: {
+          name: location.name,
+          active: location.active !== false
+        },
+        create: {
+          shopifyId: location.id.toString(),
+          tenantId: this.tenantId,
+          name: location.name,
+          active: location.active !== false
+        }
+      })
+      locationIds.set(saved.shopifyId, saved.id)
+    }
+
+    const variants = await prisma.productVariant.findMany({
+      where: {
+        tenantId: this.tenantId,
+        inventoryItemId: { not: null },
+        product: { deletedAt: null }
+      },
+      select: { id: true, inventoryItemId: true }
+    })
+    const variantIds = new Map(variants.map(v => [v.inventoryItemId!, v.id]))
+    const inventoryItemIds = [...variantIds.keys()]
+
+    let processed = 0
+    // Shopify accepts up to 50 inventory item ids per request
+    for (let i = 0; i < inventoryItemIds.length; i += 50) {
+      const params = { inventory_item_ids: inventoryItemIds.slice(i, i + 50).join(','), limit: 250 }
+      let pageInfo: string | null = null
+
+      do {
+        if (!this.hasTimeRemaining()) {
+          console.warn(`[INVENTORY] Deadline reached after ${processed} levels - stopping early`)
+          return { processed, complete: false }
+        }
+
+        const page: ShopifyPage = await this.makeShopifyRequest('inventory_levels.json', this.getPageParams(params, pageInfo))
+        const levels = (page.data.inventory_levels || [])
+          .filter((level: any) => locationIds.has(level.location_id?.toString()))
+
+        await prisma.$transaction(levels.map((level: any) => {
+          const inventoryItemId = level.inventory_item_id.toString()
+          const levelData = {
+            variantId: variantIds.get(inventoryItemId) || null,
+            available: level.available ?? 0,
+            shopifyUpdatedAt: level.updated_at ? new Date(level.updated_at) : null
+          }
+
+          return prisma.inventoryLevel.upsert({
+            where: {
+              tenantId_inventoryItemId_locationId: {
+                tenantId: this.tenantId,
+                inventoryItemId,
+                locationId: locationIds.get(level.location_id.toString())!
+              }
+            },
+            update: levelData,
+            create: {
+              tenantId: this.tenantId,
+              inventoryItemId,
+              locationId: locationIds.get(level.location_id.toString())!,
+              ...levelData
+            }
+          })
+        }))
+
+        processed += levels.length
+        pageInfo = page.nextPageInfo
+      } while (pageInfo)
+    }
+
+    console.log(`[INVENTORY] Synced ${processed} inventory levels across ${locationIds.size} locations`)
+    return { processed, complete: true }
+  }
+
+  // Checkpoint helpers - one row per tenant and resource, written after every page
+  private checkpointKey(syncType: SyncResourceType) {
+    return {
+      tenantId_resourceType: {
+        tenantId: this.tenantId,
+        resourceType: syncType
+      }
+    }
+  }
+
+  private async beginCheckpoint(syncType: SyncResourceType): Promise<{ pageInfo: string | null; since: Date | null }> {
+    const checkpoint = await prisma.syncCheckpoint.findUnique({
+      where: this.checkpointKey(syncType)
+    })
+
+    // REST page_info and GraphQL cursors are not interchangeable; a cursor from the other
+    // API (or from before cursors were tagged) restarts the window instead of failing
+    if (checkpoint?.status === 'in_progress' && checkpoint.cursor && checkpoint.cursorApi === this.api) {
+      return { pageInfo: checkpoint.cursor, since: checkpoint.sinceUpdatedAt }
+    }
+
+    let since: Date | null
+    if (!checkpoint) {
+      // Tenants synced before checkpoints existed fall back to their sync logs
+      since = await this.getLastSyncTime(syncType)
+    } else if (checkpoint.status === 'complete') {
+      since = checkpoint.highWaterUpdatedAt
+    } else {
+      // The previous run never got past its first page, or left a cursor this API cannot
+      // use, so retry the same window
+      since = checkpoint.sinceUpdatedAt
+    }
+
+    const state = {
+      status: 'in_progress',
+      cursor: null,
+      cursorApi: null,
+      sinceUpdatedAt: since,
+      highWaterUpdatedAt: since,
+      recordsProcessed: 0
+    }
+    await prisma.syncCheckpoint.upsert({
+      where: this.checkpointKey(syncType),
+      update: state,
+      create: {
+        tenantId: this.tenantId,
+        resourceType: syncType,
+        ...state
+      }
+    })
+
+    return { pageInfo: null, since }
+  }
+
+  private async saveCheckpoint(syncType: SyncResourceType, records: any[], nextPageInfo: string | null) {
+    const checkpoint = await prisma.syncCheckpoint.findUnique({
+      where: this.checkpointKey(syncType)
+    })
+
+    let highWater: Date | null = checkpoint?.highWaterUpdatedAt ?? null
+    for (const record of records) {
+      const updatedAt = record.updated_at ? new Date(record.updated_at) : null
+      if (updatedAt && (!highWater || updatedAt > highWater)) {
+        highWater = updatedAt
+      }
+    }
+
+    await prisma.syncCheckpoint.update({
+      where: this.checkpointKey(syncType),
+      data: {
+        cursor: nextPageInfo,
+        cursorApi: nextPageInfo ? this.api : null,
+        highWaterUpdatedAt: highWater,
+        recordsProcessed: { increment: records.length }
+      }
+    })
+  }
+
+  private async completeCheckpoint(syncType: SyncResourceType) {
+    await prisma.syncCheckpoint.update({
+      where: this.checkpointKey(syncType),
+      data: {
+        status: 'complete',
+        cursor: null,
+        cursorApi: null
+      }
+    })
+  }
+
+  private async discardCheckpointCursor(syncType: SyncResourceType) {
+    try {
+      await prisma.syncCheckpoint.update({
+        where: this.checkpointKey(syncType),
+        data: { cursor: null, cursorApi: null }
+      })
+    } catch (error) {
+      console.error(`Error discarding checkpoint cursor for ${syncType}:`, error)
+    }
+  }
+
   // Reset sync time to force full sync
   async resetSyncTime(syncType: string): Promise<void> {
     try {
@@ -522,6 +1277,17 @@ export class ShopifyService {
           syncType
         }
       })
+      // An unfinished full backfill is kept so repeated forced runs keep making progress
+      await prisma.syncCheckpoint.deleteMany({
+        where: {
+          tenantId: this.tenantId,
+          resourceType: syncType,
+          NOT: {
+            status: 'in_progress',
+            sinceUpdatedAt: null
+          }
+        }
+      })
       console.log(`Reset sync time for ${syncType} - next sync will be full`)
     } catch (error) {
       console.error(`Error resetting sync time for ${syncType}:`, error)
@@ -529,21 +1295,239 @@ export class ShopifyService {
   }
 
   // Force sync methods that reset sync times first
-  async forceSyncOrders(limit = 250): Promise<number> {
+  async forceSyncOrders(limit = 250): Promise<SyncRunResult> {
     await this.resetSyncTime('orders')
     return this.syncOrders(limit)
   }
 
-  async forceSyncCustomers(limit = 250): Promise<number> {
+  async forceSyncCustomers(limit = 250): Promise<SyncRunResult> {
     await this.resetSyncTime('customers')
     return this.syncCustomers(limit)
   }
 
-  async forceSyncProducts(limit = 250): Promise<number> {
+  async forceSyncProducts(limit = 250): Promise<SyncRunResult> {
     await this.resetSyncTime('products')
     return this.syncProducts(limit)
   }
 
+  // Historical backfill via Bulk Operations. Each resource runs as its own bulk query
+  // (Shopify allows one per shop at a time); state lives in BulkOperation rows so
+  // every invocation just advances whatever step is next.
+  async startBackfill(): Promise<BackfillProgress | null> {
+    const active = await prisma.bulkOperation.findFirst({
+      where: {
+        tenantId: this.tenantId,
+        status: { in: ACTIVE_BULK_STATUSES }
+      }
+    })
+
+    if (active) {
+      console.log(`[BACKFILL] Backfill ${active.backfillId} already in progress for tenant ${this.tenantId}`)
+      return getBackfillProgress(this.tenantId)
+    }
+
+    const backfillId = crypto.randomUUID()
+    await prisma.bulkOperation.createMany({
+      data: BACKFILL_RESOURCES.map((resourceType, position) => ({
+        tenantId: this.tenantId,
+        backfillId,
+        resourceType,
+        position
+      }))
+    })
+
+    console.log(`[BACKFILL] Started backfill ${backfillId} for tenant ${this.tenantId}`)
+    return getBackfillProgress(this.tenantId)
+  }
+
+  async advanceBackfill(): Promise<BackfillProgress | null> {
+    while (this.hasTimeRemaining()) {
+      const operation = await prisma.bulkOperation.findFirst({
+        where: {
+          tenantId: this.tenantId,
+          status: { in: ACTIVE_BULK_STATUSES }
+        },
+        orderBy: [{ createdAt: 'asc' }, { position: 'asc' }]
+      })
+
+      if (!operation) break
+
+      if (operation.status === 'PENDING') {
+        const { bulkOperation, userErrors } = await runBulkQuery(this.graphql, BULK_QUERIES[operation.resourceType as SyncResourceType])
+        if (!bulkOperation) {
+          // Usually another bulk query is still running for this shop; try again next invocation
+          console.warn(`[BACKFILL] Could not start ${operation.resourceType} bulk query:`, userErrors)
+          break
+        }
+
+        await prisma.bulkOperation.update({
+          where: { id: operation.id },
+          data: { shopifyId: bulkOperation.id, status: bulkOperation.status }
+        })
+        console.log(`[BACKFILL] Submitted ${operation.resourceType} bulk query ${bulkOperation.id}`)
+        break
+      }
+
+      if (operation.status !== 'COMPLETED') {
+        const remote = await getBulkOperation(this.graphql, operation.shopifyId!)
+        await prisma.bulkOperation.update({
+          where: { id: operation.id },
+          data: {
+            status: remote.status,
+            errorCode: remote.errorCode,
+            objectCount: Number(remote.objectCount || 0),
+            url: remote.url,
+            completedAt: remote.status === 'COMPLETED' ? new Date() : undefined
+          }
+        })
+
+        console.log(`[BACKFILL] ${operation.resourceType} bulk query is ${remote.status}`, { objectCount: remote.objectCount })
+        // Still running on Shopify's side - the next invocation polls again
+        if (remote.status !== 'COMPLETED') {
+          if (['CREATED', 'RUNNING', 'CANCELING'].includes(remote.status)) break
+          continue
+        }
+      }
+
+      const finished = await this.importBulkResult(operation.id)
+      if (!finished) break
+    }
+
+    return getBackfillProgress(this.tenantId)
+  }
+
+  // Streams a completed bulk result into the database, saving the line offset as it goes.
+  // Resolves to false when the deadline interrupted the import.
+  private async importBulkResult(operationId: string): Promise<boolean> {
+    const operation = await prisma.bulkOperation.findUniqueOrThrow({
+      where: { id: operationId }
+    })
+    const resourceType = operation.resourceType as SyncResourceType
+
+    if (operation.url) {
+      const upsert = {
+        customers: (record: any) => this.upsertCustomer(record),
+        products: (record: any) => this.upsertProduct(record),
+        orders: (record: any) => this.upsertOrder(record)
+      }[resourceType]
+
+      let linesProcessed = operation.linesProcessed
+      let recordsImported = operation.recordsImported
+      // Counted by lines rather than imports so a run of failing records still saves its place
+      let linesSinceSave = 0
+      const saveProgress = async () => {
+        linesSinceSave = 0
+        // Rollups for imported orders land before the offset moves past them
+        await this.refreshRollups()
+        await prisma.bulkOperation.update({
+          where: { id: operation.id },
+          data: { linesProcessed, recordsImported }
+        })
+      }
+
+      console.log(`[BACKFILL] Importing ${resourceType} from line ${linesProcessed}`)
+      for await (const { record, linesConsumed } of readBulkRecords(operation.url, linesProcessed)) {
+        try {
+          await upsert(REST_MAPPERS[resourceType](record))
+          recordsImported++
+        } catch (error) {
+          console.error(`[BACKFILL] Error importing ${resourceType} ${record.legacyResourceId}:`, error)
+        }
+        linesProcessed = linesConsumed
+        linesSinceSave++
+
+        if (linesSinceSave >= 250) {
+          await saveProgress()
+        }
+        if (!this.hasTimeRemaining()) {
+          await saveProgress()
+          console.warn(`[BACKFILL] Deadline reached while importing ${resourceType} - resuming next run`)
+          return false
+        }
+      }
+      await saveProgress()
+    }
+
+    await prisma.bulkOperation.update({
+      where: { id: operation.id },
+      data: { status: 'IMPORTED' }
+    })
+
+    // Incremental syncs only need to pick up changes made after the snapshot was taken
+    const state = {
+      status: 'complete',
+      cursor: null,
+      cursorApi: null,
+      sinceUpdatedAt: null,
+      highWaterUpdatedAt: operation.createdAt
+    }
+    await prisma.syncCheckpoint.upsert({
+      where: this.checkpointKey(resourceType),
+      update: state,
+      create: {
+        tenantId: this.tenantId,
+        resourceType,
+        ...state
+      }
+    })
+
+    console.log(`[BACKFILL] Finished importing ${resourceType}`)
+    return true
+  }
+
+  // Webhook ingestion - applies a single pushed record through the same upserts the sync loops use
+  async applyWebhook(topic: ShopifyWebhookTopic, payload: any) {
+    console.log(`[WEBHOOK] Applying ${topic} for tenant ${this.tenantId}`, { shopifyId: payload?.id })
+
+    switch (topic) {
+      case 'orders/create':
+      case 'orders/updated':
+      case 'orders/cancelled': {
+        const order = await this.upsertOrder(payload)
+        await this.refreshRollups()
+        return order
+      }
+      case 'customers/create':
+      case 'customers/update': {
+        const customer = await this.upsertCustomer(payload)
+        await this.relinkOrphans()
+        return customer
+      }
+      case 'products/create':
+      case 'products/update': {
+        const product = await this.upsertProduct(payload)
+        await this.relinkOrphans()
+        return product
+      }
+      case 'orders/delete':
+        return await this.markDeleted('orders', [payload.id.toString()])
+      case 'customers/delete':
+        return await this.markDeleted('customers', [payload.id.toString()])
+      case 'products/delete':
+        return await this.markDeleted('products', [payload.id.toString()])
+    }
+  }
+
+  // Webhook subscription management
+  async listWebhooks(): Promise<ShopifyWebhookSubscription[]> {
+    const { data } = await this.makeShopifyRequest('webhooks.json', { limit: 250 })
+    return data.webhooks || []
+  }
+
+  async createWebhook(topic: string, address: string): Promise<ShopifyWebhookSubscription> {
+    const { data } = await this.makeShopifyRequest('webhooks.json', {}, {
+      method: 'POST',
+      body: {
+        webhook: { topic, address, format: 'json' }
+      }
+    })
+    return data.webhook
+  }
+
+  async deleteWebhook(webhookId: number): Promise<void> {
+    await this.makeShopifyRequest(`webhooks/${webhookId}.json`, {}, { method: 'DELETE' })
+  }
+
   // Batch sync methods for better performance
   async syncCustomersBatch(customerIds: string[]) {
     const results: any[] = []
@@ -608,6 +1592,11 @@ export class ShopifyService {
           tenantId: this.tenantId
         }
       })
+      await prisma.syncCheckpoint.deleteMany({
+        where: {
+          tenantId: this.tenantId
+        }
+      })
       console.log(`Reset sync times for tenant ${this.tenantId}`)
     } catch (error) {
       console.error('Error resetting sync times:', error)
@@ -635,21 +1624,16 @@ export async function makeShopifyRequest(
 
   console.log(`[SHOPIFY DEBUG] Making request to: ${endpoint}`, { params, shopDomain })
 
-  const controller = new AbortController()
-  const timeoutId = setTimeout(() => controller.abort(), 25000) // 25s timeout for Vercel
-
   try {
-    const response = await fetch(url.toString(), {
+    const response = await shopifyRateLimiter.schedule(shopDomain, () => fetch(url.toString(), {
       method: 'GET',
       headers: {
         'X-Shopify-Access-Token': accessToken,
         'Content-Type': 'application/json',
         'User-Agent': 'ShopifyService/1.0'
       },
-      signal: controller.signal
-    })
-
-    clearTimeout(timeoutId)
+      signal: AbortSignal.timeout(25000) // 25s timeout per attempt for Vercel
+    }))
 
     if (!response.ok) {
       const errorText = await response.text()
@@ -662,8 +1646,7 @@ export async function makeShopifyRequest(
     return data
 
   } catch (error) {
-    clearTimeout(timeoutId)
-    if (error instanceof Error && error.name === 'AbortError') {
+    if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
       console.error('[SHOPIFY DEBUG TIMEOUT] Request timed out after 25 seconds')
       throw new Error('Shopify API request timed out')
     }
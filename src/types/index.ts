@@ -5,6 +5,37 @@ export interface ShopifyConfig {
   apiSecret?: string
 }
 
+export interface ShopifyServiceOptions {
+  // Epoch ms after which sync loops stop requesting new pages
+  deadline?: number
+  // Admin API used by the sync loops; defaults to SHOPIFY_SYNC_API or 'rest'
+  api?: 'rest' | 'graphql'
+}
+
+export type SyncResourceType = 'customers' | 'orders' | 'products'
+
+export interface SyncRunResult {
+  processed: number
+  complete: boolean
+  // Orders and line items linked to customers/products that arrived after them
+  relinked?: number
+}
+
+export interface BackfillProgress {
+  backfillId: string
+  status: 'running' | 'complete' | 'failed'
+  startedAt: Date
+  recordsImported: number
+  operations: Array<{
+    resourceType: string
+    status: string
+    objectCount: number
+    recordsImported: number
+    errorCode: string | null
+    completedAt: Date | null
+  }>
+}
+
 export interface TenantWithConfig {
   id: string
   name: string
@@ -12,6 +43,10 @@ export interface TenantWithConfig {
   shopifyAccessToken?: string
   apiKey?: string
   apiSecret?: string
+  webhookSecret?: string
+  currency?: string
+  reportingCurrency?: string
+  timezone?: string
   isActive: boolean
   userId: string
 }
@@ -99,4 +134,33 @@ export interface ShopifyProduct {
   variants: any[]
   created_at: string
   updated_at: string
+}
+
+export interface ShopifyWebhookSubscription {
+  id: number
+  topic: string
+  address: string
+  format: string
+  created_at: string
+  updated_at: string
+}
+
+export interface WebhookTopicStatus {
+  topic: string
+  live: boolean
+  subscriptionId?: number
+  address?: string
+}
+
+export interface WebhookStatus {
+  callbackUrl: string | null
+  topics: WebhookTopicStatus[]
+  // Subscriptions that point elsewhere or cover topics we no longer handle
+  stale: ShopifyWebhookSubscription[]
+  error?: string
+}
+
+export interface WebhookReconcileResult extends WebhookStatus {
+  created: string[]
+  deleted: number[]
 }
\ No newline at end of file